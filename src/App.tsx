@@ -1,21 +1,66 @@
-import { For, Show, createEffect, createMemo, createSignal, onCleanup, onMount } from "solid-js";
+import { For, Show, createEffect, createMemo, createSignal, onCleanup, onMount, untrack } from "solid-js";
 import { createZoomPan } from "./useZoomPan";
 import ClusterWorker from "./workers/clusterWorker?worker";
+import type { ExtractResult, RequestParams } from "./workers/protocol";
+import { createWorkerClient, WorkerCancelledError, WorkerRequestError, type RequestOptions } from "./workerClient";
 import ControlPanel from "./components/ControlPanel";
 import SideDrawer from "./components/SideDrawer";
 import ClusterPanel from "./components/ClusterPanel";
 import PieChartWindow from "./components/PieChartWindow";
 import PhotoWindow from "./components/PhotoWindow";
 import ZoomWidget from "./components/ZoomWidget";
+import ResolutionReportWindow from "./components/ResolutionReportWindow";
+import ErrorBanner from "./components/ErrorBanner";
+import DendrogramWindow from "./components/DendrogramWindow";
+import ReachabilityWindow from "./components/ReachabilityWindow";
+import SuggestWindow from "./components/SuggestWindow";
+import QualityWindow from "./components/QualityWindow";
+import TaxonomyMappingWindow from "./components/TaxonomyMappingWindow";
+import SubclusterWindow from "./components/SubclusterWindow";
 import type {
   ClusterDistribution,
+  ClusterId,
   ClusterDistributionMap,
+  ClusterQuality,
   HierKey,
   ClusterMethod,
+  ClusterRequest,
+  Dendrogram,
+  DistanceMetric,
+  Embedding,
+  ExtractorKind,
+  ImageRecord,
+  Linkage,
+  MatchSpace,
   PanelPlacement,
   PanelPlacementMap,
+  ParamSuggestion,
+  PixelFilter,
+  Reachability,
+  ResolutionReport,
+  SourceFile,
+  SubclusterSettings,
+  TaxonomyFile,
+  TaxonomyFormat,
+  TaxonomyInfo,
+  TaxonomyMapping,
+  WorkerError,
+  WorkerErrorStage,
 } from "./types";
+import { filesFromDrop } from "./utils/fileSources";
+import { describeImage } from "./utils/imageInfo";
+import { buildClusterCsv, downloadText } from "./utils/exportClusters";
+import { childId, compareIds, denseLabels, groupTitle, isUngrouped, topLabel } from "./utils/clusterIds";
+import { cutDendrogram } from "./workers/agglomerative";
 import {
+  guessTaxonomyMapping,
+  parseTaxonomyTable,
+  taxonomyFormatFor,
+  type TaxonomyTable,
+} from "./workers/taxonomyTable";
+import {
+  ANALYSIS_EDGE_DEFAULT,
+  ANALYSIS_EDGE_OPTIONS,
   CONTROL_DRAWER_DEFAULT_OPEN,
   CONTROL_DRAWER_HANDLE_ANGLE,
   CONTROL_DRAWER_HANDLE_HEIGHT,
@@ -31,12 +76,29 @@ import {
   CLUSTER_LAYOUT_PAD_TOP,
   DEFAULT_PANEL_HEIGHT,
   DEFAULT_PANEL_WIDTH,
+  EMBEDDING_DEFAULT,
   EPS_DEFAULT,
+  EPS_MAX,
+  EPS_MIN,
+  EPS_STEP,
+  EXTRACT_POOL_SIZE,
+  EXCLUDE_NEUTRAL_DEFAULT,
+  EXTRACTOR_DEFAULT,
   HUD_MARGIN_RIGHT,
   HUD_MARGIN_TOP,
-  K_COLORS,
+  K_COLORS_DEFAULT,
   KMEANS_DEFAULT,
+  KMEANS_MAX_ITER_DEFAULT,
+  KMEANS_RESTARTS_DEFAULT,
+  KMEANS_MAX,
+  KMEANS_MIN,
+  LINKAGE_DEFAULT,
+  MATCH_SPACE_DEFAULT,
   MIN_PTS_DEFAULT,
+  METRIC_DEFAULT,
+  MIN_CLUSTER_SIZE_DEFAULT,
+  NOTICE_DURATION_MS,
+  PIXEL_FILTER_DEFAULT,
   PANEL_BASE_Z_INDEX,
   PANEL_GRID_BASE_X,
   PANEL_GRID_BASE_Y,
@@ -63,9 +125,52 @@ import {
 } from "./appConfig";
 import "./App.css";
 
-const assetUrl = (path: string) => new URL(path, import.meta.env.BASE_URL).toString();
 const CHART_WINDOW_WIDTH = 480;
 const CHART_WINDOW_HEIGHT = 380;
+// panels with this prefix are analysis tools, not tied to a cluster id
+const TOOL_PREFIX = "tool-";
+const RESOLUTION_WINDOW_ID = `${TOOL_PREFIX}resolution`;
+const RESOLUTION_WINDOW_WIDTH = 460;
+const RESOLUTION_WINDOW_HEIGHT = 280;
+const DENDROGRAM_WINDOW_ID = `${TOOL_PREFIX}dendrogram`;
+const DENDROGRAM_WINDOW_WIDTH = 560;
+const DENDROGRAM_WINDOW_HEIGHT = 320;
+const REACHABILITY_WINDOW_ID = `${TOOL_PREFIX}reachability`;
+const REACHABILITY_WINDOW_WIDTH = 560;
+const REACHABILITY_WINDOW_HEIGHT = 300;
+const SUGGEST_WINDOW_ID = `${TOOL_PREFIX}suggest`;
+const SUGGEST_WINDOW_WIDTH = 520;
+const SUGGEST_WINDOW_HEIGHT = 320;
+const QUALITY_WINDOW_ID = `${TOOL_PREFIX}quality`;
+const QUALITY_WINDOW_WIDTH = 460;
+const QUALITY_WINDOW_HEIGHT = 340;
+const SUBCLUSTER_WINDOW_ID = `${TOOL_PREFIX}subcluster`;
+const SUBCLUSTER_WINDOW_WIDTH = 380;
+const SUBCLUSTER_WINDOW_HEIGHT = 330;
+// space between a panel and the ones a split or drill-down spawns beside it
+const SPAWN_PANEL_GAP = 24;
+// wait for the cut line to settle before asking the worker for pie chart data
+const SUMMARIZE_DELAY_MS = 200;
+const TAXONOMY_WINDOW_ID = `${TOOL_PREFIX}taxonomy`;
+const TAXONOMY_WINDOW_WIDTH = 520;
+const TAXONOMY_WINDOW_HEIGHT = 420;
+
+// an imported file waiting for its column mapping
+type TaxonomyDraft = { name: string; text: string; format: TaxonomyFormat; table: TaxonomyTable; mapping: TaxonomyMapping };
+
+// worker summaries per chart layer -> cluster id -> name shares, as the pie windows read them;
+// `ids` maps the labels the worker summarized back to clusters, when they were not the run's own
+const distMapsFrom = (summaries: Record<HierKey, ClusterDistribution[]> | undefined, ids?: ClusterId[]) => {
+  const dists: Record<HierKey, ClusterDistributionMap> = {};
+  Object.entries(summaries ?? {}).forEach(([chartLayer, entries]) => {
+    const dist: ClusterDistributionMap = {};
+    entries.forEach((entry) => {
+      dist[ids?.[entry.id] ?? String(entry.id)] = entry.parts;
+    });
+    dists[chartLayer] = dist;
+  });
+  return dists;
+};
 
 const defaultPlacement = (id: string, order: number): PanelPlacement => {
   const col = order % PANEL_GRID_COLUMNS;
@@ -82,17 +187,62 @@ const defaultPlacement = (id: string, order: number): PanelPlacement => {
 
 export default function App() {
   const [ready, setReady] = createSignal(false);
+  const [loading, setLoading] = createSignal(true);
+  const [loadStopped, setLoadStopped] = createSignal(false);
+  const [extracting, setExtracting] = createSignal(false);
+  const [hasDistributions, setHasDistributions] = createSignal(false);
+  const [workerError, setWorkerError] = createSignal<WorkerError | null>(null);
   const [progress, setProgress] = createSignal<{ phase: string; done: number; total: number } | null>(null);
-  const [labels, setLabels] = createSignal<number[] | null>(null);
-  const [imageUrls, setImageUrls] = createSignal<string[] | null>(null);
+  // cluster of every image: the run's labels, edited by hand and by drill-downs
+  const [labels, setLabels] = createSignal<ClusterId[] | null>(null);
+  const [imageRecords, setImageRecords] = createSignal<ImageRecord[]>([]);
   const [isClustering, setIsClustering] = createSignal(false);
   const [layer, setLayer] = createSignal<HierKey>("xkcd_color");
+  // mixed mode clusters on every weighted layer at once; the weights outlive switching back
+  const [mixLayers, setMixLayers] = createSignal(false);
+  const [layerWeights, setLayerWeights] = createSignal<Record<HierKey, number>>({});
+  const [embedding, setEmbedding] = createSignal<Embedding>(EMBEDDING_DEFAULT);
   const [method, setMethod] = createSignal<ClusterMethod>("dbscan");
   const [eps, setEps] = createSignal(EPS_DEFAULT);
   const [minPts, setMinPts] = createSignal(MIN_PTS_DEFAULT);
+  const [minClusterSize, setMinClusterSize] = createSignal(MIN_CLUSTER_SIZE_DEFAULT);
   const [kMeansK, setKMeansK] = createSignal(KMEANS_DEFAULT);
+  // null draws a new seed per run; the seed a run used comes back in lastSeed
+  const [kMeansSeed, setKMeansSeed] = createSignal<number | null>(null);
+  const [kMeansRestarts, setKMeansRestarts] = createSignal(KMEANS_RESTARTS_DEFAULT);
+  const [kMeansMaxIter, setKMeansMaxIter] = createSignal(KMEANS_MAX_ITER_DEFAULT);
+  const [lastSeed, setLastSeed] = createSignal<number | null>(null);
+  const [linkage, setLinkage] = createSignal<Linkage>(LINKAGE_DEFAULT);
+  const [metric, setMetric] = createSignal<DistanceMetric>(METRIC_DEFAULT);
+  // metric the shown clusters were computed with, which k-means and Ward override
+  const [resultMetric, setResultMetric] = createSignal<DistanceMetric>(METRIC_DEFAULT);
+  // tree of the last agglomerative run; cut again locally when k changes
+  const [tree, setTree] = createSignal<Dendrogram | null>(null);
+  // reachability plot of the last OPTICS run
+  const [reachability, setReachability] = createSignal<Reachability | null>(null);
+  // scores of the partition on screen, refreshed on every run and dendrogram cut
+  const [quality, setQuality] = createSignal<ClusterQuality | null>(null);
+  // clusters the labels in `quality` stand for once the partition has been edited
+  const [qualityIds, setQualityIds] = createSignal<ClusterId[] | null>(null);
+  // cluster the sub-cluster window drills into
+  const [subclusterTarget, setSubclusterTarget] = createSignal<ClusterId | null>(null);
+  const [isSubclustering, setIsSubclustering] = createSignal(false);
   const [hasRun, setHasRun] = createSignal(false);
   const [runId, setRunId] = createSignal(0);
+  const [dragActive, setDragActive] = createSignal(false);
+  const [notice, setNotice] = createSignal<string | null>(null);
+  const [analysisEdge, setAnalysisEdge] = createSignal(ANALYSIS_EDGE_DEFAULT);
+  const [matchSpace, setMatchSpace] = createSignal<MatchSpace>(MATCH_SPACE_DEFAULT);
+  const [extractor, setExtractor] = createSignal<ExtractorKind>(EXTRACTOR_DEFAULT);
+  const [kColors, setKColors] = createSignal(K_COLORS_DEFAULT);
+  const [excludeNeutral, setExcludeNeutral] = createSignal(EXCLUDE_NEUTRAL_DEFAULT);
+  const [pixelFilter, setPixelFilter] = createSignal<PixelFilter>(PIXEL_FILTER_DEFAULT);
+  const [resolutionReport, setResolutionReport] = createSignal<ResolutionReport | null>(null);
+  const [isComparing, setIsComparing] = createSignal(false);
+  const [suggestion, setSuggestion] = createSignal<ParamSuggestion | null>(null);
+  const [isSuggesting, setIsSuggesting] = createSignal(false);
+  const [taxonomy, setTaxonomy] = createSignal<TaxonomyInfo | null>(null);
+  const [taxonomyDraft, setTaxonomyDraft] = createSignal<TaxonomyDraft | null>(null);
 
   const [panelStates, setPanelStates] = createSignal<PanelPlacementMap>({});
   const [previewPanel, setPreviewPanel] = createSignal<PanelPlacement | null>(null);
@@ -104,7 +254,8 @@ export default function App() {
   const [maximizedPreview, setMaximizedPreview] = createSignal<PanelPlacement | null>(null);
   const [maximizedPanels, setMaximizedPanels] = createSignal<Record<string, PanelPlacement>>({});
   const [zTop, setZTop] = createSignal(PANEL_ZTOP_START);
-  const [clusterDists, setClusterDists] = createSignal<ClusterDistributionMap>({});
+  // per chart layer: cluster id -> name shares
+  const [clusterDists, setClusterDists] = createSignal<Record<HierKey, ClusterDistributionMap>>({});
   const zoomPan = createZoomPan({
     width: WORKSPACE_WIDTH,
     height: WORKSPACE_HEIGHT,
@@ -119,110 +270,639 @@ export default function App() {
     "z-index": `${CONTROL_DRAWER_Z_INDEX}`,
   }));
 
-  const worker = new ClusterWorker();
+  const client = createWorkerClient(new ClusterWorker(), {
+    onError: (message) => {
+      setWorkerError({ stage: "worker", message, recoverable: false });
+      setIsClustering(false);
+      setProgress(null);
+    },
+  });
 
   onMount(() => {
     zoomPan.centerWorkspace();
+    startInit();
+  });
 
-    worker.onmessage = (e: MessageEvent<any>) => {
-      const m = e.data;
-      if (m.type === "PROGRESS") setProgress(m);
-      if (m.type === "READY") {
-        setReady(true);
-        setImageUrls(m.imageUrls ?? null);
-        setProgress(null);
-      }
-      if (m.type === "CLUSTERS") {
-        if (m.runId == null || m.runId === runId()) {
-          setLabels(m.labels);
-          const dist: ClusterDistributionMap = {};
-          (m.colorFamilyDist ?? []).forEach((entry: ClusterDistribution) => {
-            dist[String(entry.id)] = entry.parts;
-          });
-          setClusterDists(dist);
-          setIsClustering(false);
-          setProgress(null);
-        }
-      }
+  const reportFailure = (stage: WorkerErrorStage, error: unknown) => {
+    if (error instanceof WorkerCancelledError) return;
+    if (error instanceof WorkerRequestError) {
+      setWorkerError({ stage: error.stage, message: error.message, recoverable: error.recoverable });
+      return;
+    }
+    setWorkerError({ stage, message: error instanceof Error ? error.message : String(error), recoverable: true });
+  };
+
+  const showImages = (images: ImageRecord[]) => {
+    setReady(true);
+    setLoading(false);
+    setExtracting(true);
+    setHasDistributions(false);
+    setImageRecords(images);
+    setProgress(null);
+  };
+
+  // layers come from the taxonomy; keep the current one if the new taxonomy has it
+  const showTaxonomy = (info: TaxonomyInfo) => {
+    setTaxonomy(info);
+    if (!info.layers.some((l) => l.key === layer())) setLayer(info.layers[0].key);
+  };
+
+  let loadAbort: AbortController | null = null;
+
+  // INIT, LOAD_FILES, REEXTRACT and LOAD_TAXONOMY share a lifecycle: images first, then distributions
+  const trackLoad = async (stage: WorkerErrorStage, start: (opts: RequestOptions) => Promise<ExtractResult>) => {
+    const controller = new AbortController();
+    loadAbort = controller;
+    try {
+      await start({
+        signal: controller.signal,
+        onProgress: setProgress,
+        onImages: showImages,
+        onTaxonomy: showTaxonomy,
+      });
+      setExtracting(false);
+      setHasDistributions(true);
+      setProgress(null);
+      if (hasRun()) runCluster();
+    } catch (error) {
+      // a newer load replaced this one and owns the UI state now
+      if (error instanceof WorkerCancelledError && error.superseded) return;
+      const state =
+        (error instanceof WorkerRequestError || error instanceof WorkerCancelledError) && error.state
+          ? error.state
+          : { hasImages: ready(), hasDistributions: hasDistributions() };
+      setProgress(null);
+      setLoading(false);
+      setExtracting(false);
+      setReady(state.hasImages);
+      setHasDistributions(state.hasDistributions);
+      setLoadStopped(!state.hasImages);
+      reportFailure(stage, error);
+    } finally {
+      if (loadAbort === controller) loadAbort = null;
+    }
+  };
+
+  const startInit = () => {
+    setWorkerError(null);
+    setLoading(true);
+    setLoadStopped(false);
+    void trackLoad("init", (opts) =>
+      client.init(
+        {
+          kColors: kColors(),
+          baseUrl: import.meta.env.BASE_URL,
+          poolSize: EXTRACT_POOL_SIZE,
+          analysisEdge: analysisEdge(),
+          matchSpace: matchSpace(),
+          extractor: extractor(),
+          excludeNeutral: excludeNeutral(),
+          pixelFilter: pixelFilter(),
+        },
+        opts
+      )
+    );
+  };
+
+  onCleanup(() => client.terminate());
+
+  let noticeTimer: ReturnType<typeof setTimeout> | undefined;
+  const showNotice = (text: string) => {
+    clearTimeout(noticeTimer);
+    setNotice(text);
+    noticeTimer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+  };
+  onCleanup(() => clearTimeout(noticeTimer));
+
+  const clearCache = async () => {
+    try {
+      const { entries } = await client.clearCache();
+      showNotice(`Cache cleared (${entries} images)`);
+    } catch (error) {
+      reportFailure("cache", error);
+    }
+  };
+
+  // every setting is sent, not just the changed one: a cancelled or failed extraction
+  // leaves the worker on its previous settings while the controls keep the new values
+  const reextract = (params: RequestParams<"REEXTRACT">) => {
+    if (!ready()) return;
+    setExtracting(true);
+    const settings = {
+      kColors: kColors(),
+      analysisEdge: analysisEdge(),
+      matchSpace: matchSpace(),
+      extractor: extractor(),
+      excludeNeutral: excludeNeutral(),
+      pixelFilter: pixelFilter(),
     };
+    void trackLoad("extract", (opts) => client.reextract({ ...settings, ...params }, opts));
+  };
 
-    worker.postMessage({
-      type: "INIT", kColors: K_COLORS, baseUrl: import.meta.env.BASE_URL,
-    });
-  });
+  const changeAnalysisEdge = (edge: number) => {
+    if (edge === analysisEdge()) return;
+    setAnalysisEdge(edge);
+    reextract({ analysisEdge: edge });
+  };
+
+  // distributions are named in the match space, so switching rebuilds them from the palettes
+  const changeMatchSpace = (space: MatchSpace) => {
+    if (space === matchSpace()) return;
+    setMatchSpace(space);
+    reextract({ matchSpace: space });
+  };
 
-  onCleanup(() => worker.terminate());
+  // images and panels stay; only the distributions (and then the clusters) are rebuilt
+  const changeKColors = (value: number) => {
+    if (value === kColors()) return;
+    setKColors(value);
+    reextract({ kColors: value });
+  };
 
-  const runCluster = () => {
+  const changeExcludeNeutral = (value: boolean) => {
+    if (value === excludeNeutral()) return;
+    setExcludeNeutral(value);
+    reextract({ excludeNeutral: value });
+  };
+
+  const changePixelFilter = (patch: Partial<PixelFilter>) => {
+    const next = { ...pixelFilter(), ...patch };
+    setPixelFilter(next);
+    reextract({ pixelFilter: next });
+  };
+
+  const changeExtractor = (kind: ExtractorKind) => {
+    if (kind === extractor()) return;
+    setExtractor(kind);
+    reextract({ extractor: kind });
+  };
+
+  const extractPalettes = () => {
+    if (extracting()) return;
+    setWorkerError(null);
+    reextract({});
+  };
+
+  // kept so a failed taxonomy load can be retried; undefined means the built-in one
+  let lastTaxonomyFile: TaxonomyFile | undefined;
+
+  const loadTaxonomy = (file?: TaxonomyFile) => {
     if (!ready()) return;
-    const nextId = runId() + 1;
-    setRunId(nextId);
+    lastTaxonomyFile = file;
+    setWorkerError(null);
+    setExtracting(true);
+    setHasDistributions(false);
+    void trackLoad("taxonomy", (opts) => client.loadTaxonomy(file, opts));
+  };
+
+  // parsed here first so the mapping window can offer the file's columns
+  const importTaxonomy = async (file: File) => {
+    const format = taxonomyFormatFor(file.name);
+    if (!format) {
+      setWorkerError({ stage: "taxonomy", message: `${file.name} is not a .json or .csv file`, recoverable: false });
+      return;
+    }
+    try {
+      const text = await file.text();
+      const table = parseTaxonomyTable(text, format);
+      setTaxonomyDraft({ name: file.name, text, format, table, mapping: guessTaxonomyMapping(table) });
+      openToolWindow(TAXONOMY_WINDOW_ID, TAXONOMY_WINDOW_WIDTH, TAXONOMY_WINDOW_HEIGHT);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setWorkerError({ stage: "taxonomy", message: `${file.name}: ${message}`, recoverable: false });
+    }
+  };
+
+  const applyTaxonomyDraft = (mapping: TaxonomyMapping) => {
+    const draft = taxonomyDraft();
+    if (!draft) return;
+    closeTaxonomyWindow();
+    loadTaxonomy({ name: draft.name, text: draft.text, format: draft.format, mapping });
+  };
+
+  const closeTaxonomyWindow = () => {
+    deletePanel(TAXONOMY_WINDOW_ID);
+    setTaxonomyDraft(null);
+  };
+
+  let clusterAbort: AbortController | null = null;
+  let compareAbort: AbortController | null = null;
+  let suggestAbort: AbortController | null = null;
+  let subclusterAbort: AbortController | null = null;
+
+  const cancelClusterRun = () => {
+    clusterAbort?.abort();
+    setIsClustering(false);
+  };
+
+  // stop whatever the worker is busy with; a cancelled load settles through trackLoad
+  const cancelWork = () => {
+    if (isClustering()) cancelClusterRun();
+    if (loading() || extracting()) loadAbort?.abort();
+    if (isComparing()) compareAbort?.abort();
+    if (isSuggesting()) suggestAbort?.abort();
+    if (isSubclustering()) subclusterAbort?.abort();
+  };
+
+  // the clustering settings as they stand; runs, comparisons and suggestions all send these
+  const clusterRequest = (): ClusterRequest => ({
+    layer: layer(),
+    embedding: embedding(),
+    method: method(),
+    eps: eps(),
+    minPts: minPts(),
+    minClusterSize: minClusterSize(),
+    k: kMeansK(),
+    linkage: linkage(),
+    metric: metric(),
+    seed: kMeansSeed(),
+    restarts: kMeansRestarts(),
+    maxIter: kMeansMaxIter(),
+    layerWeights: mixLayers() ? layerWeights() : null,
+    indices: null,
+  });
+
+  // entering mixed mode with nothing weighted starts from the single layer in use
+  const changeMixLayers = (on: boolean) => {
+    const weights = layerWeights();
+    const layers = taxonomy()?.layers ?? [];
+    if (on && !layers.some((l) => (weights[l.key] ?? 0) > 0)) setLayerWeights({ ...weights, [layer()]: 1 });
+    setMixLayers(on);
+  };
+
+  const compareResolutions = async () => {
+    if (!ready() || isComparing()) return;
+    setIsComparing(true);
+    const controller = new AbortController();
+    compareAbort = controller;
+    try {
+      const report = await client.compareResolutions(
+        { ...clusterRequest(), edges: ANALYSIS_EDGE_OPTIONS },
+        { signal: controller.signal, onProgress: setProgress }
+      );
+      setResolutionReport(report);
+      openToolWindow(RESOLUTION_WINDOW_ID, RESOLUTION_WINDOW_WIDTH, RESOLUTION_WINDOW_HEIGHT);
+    } catch (error) {
+      reportFailure("compare", error);
+    } finally {
+      compareAbort = null;
+      setIsComparing(false);
+      setProgress(null);
+    }
+  };
+
+  const suggestParams = async () => {
+    if (!ready() || !hasDistributions() || isSuggesting()) return;
+    setIsSuggesting(true);
+    const controller = new AbortController();
+    suggestAbort = controller;
+    try {
+      const result = await client.suggestParams(
+        { ...clusterRequest(), kMin: KMEANS_MIN, kMax: KMEANS_MAX },
+        { signal: controller.signal, onProgress: setProgress }
+      );
+      setSuggestion(result);
+      openToolWindow(SUGGEST_WINDOW_ID, SUGGEST_WINDOW_WIDTH, SUGGEST_WINDOW_HEIGHT);
+    } catch (error) {
+      reportFailure("suggest", error);
+    } finally {
+      suggestAbort = null;
+      setIsSuggesting(false);
+      setProgress(null);
+    }
+  };
+
+  // Picks from the suggestion charts run through the same debounced effect as the sliders.
+  // The effect only fires on a change, so picking the value already set runs directly.
+  const pickEps = (value: number) => {
+    const next = Math.min(EPS_MAX, Math.max(EPS_MIN, Math.round(value / EPS_STEP) * EPS_STEP));
+    const unchanged = hasRun() && next === eps();
+    setEps(next);
+    setHasRun(true);
+    if (unchanged) runCluster();
+  };
+
+  const pickK = (k: number) => {
+    const unchanged = hasRun() && k === kMeansK();
+    changeK(k);
+    setHasRun(true);
+    if (unchanged) runCluster();
+  };
+
+  let summarizeAbort: AbortController | null = null;
+  let summarizeTimer: ReturnType<typeof setTimeout> | undefined;
+  onCleanup(() => clearTimeout(summarizeTimer));
+
+  // a pending summary describes labels that are about to be replaced
+  const cancelSummarize = () => {
+    clearTimeout(summarizeTimer);
+    summarizeAbort?.abort();
+    summarizeAbort = null;
+  };
+
+  // kept so a failed load can be retried without picking the files again
+  let lastFiles: SourceFile[] = [];
+
+  const loadFiles = (files: SourceFile[]) => {
+    if (!files.length) return;
+    lastFiles = files;
+    setWorkerError(null);
+    cancelSummarize();
+    // bump the run id so a clustering result for the previous image set is ignored
+    setRunId(runId() + 1);
+    setReady(false);
+    setLoading(true);
+    setLoadStopped(false);
+    setIsClustering(false);
+    setHasRun(false);
+    setLabels(null);
+    setTree(null);
+    setReachability(null);
+    setQuality(null);
+    setClusterDists({});
+    closePhotoPreview();
+    void trackLoad("load", (opts) => client.loadFiles(files, opts));
+  };
+
+  const hasDraggedFiles = (ev: DragEvent) => ev.dataTransfer?.types.includes("Files") ?? false;
+
+  const handleDragOver = (ev: DragEvent) => {
+    if (loading() || !hasDraggedFiles(ev)) return;
+    ev.preventDefault();
+    if (ev.dataTransfer) ev.dataTransfer.dropEffect = "copy";
+    setDragActive(true);
+  };
+
+  const handleDragLeave = (ev: DragEvent) => {
+    // dragleave also fires when crossing into child elements; only reset when leaving the shell
+    if (ev.relatedTarget instanceof Node && (ev.currentTarget as Node).contains(ev.relatedTarget)) return;
+    setDragActive(false);
+  };
+
+  const handleDrop = async (ev: DragEvent) => {
+    setDragActive(false);
+    if (loading() || !ev.dataTransfer || !hasDraggedFiles(ev)) return;
+    ev.preventDefault();
+    // nothing to retry: the dropped items are gone once the handler yields
+    let files: SourceFile[];
+    try {
+      files = await filesFromDrop(ev.dataTransfer);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setWorkerError({ stage: "load", message: `Could not read the dropped files: ${reason}`, recoverable: false });
+      return;
+    }
+    if (!files.length) {
+      setWorkerError({
+        stage: "load",
+        message: "No JPEG, PNG, WebP or tar archive found in the drop",
+        recoverable: false,
+      });
+      return;
+    }
+    loadFiles(files);
+  };
+
+  let lastClusterRequest: ClusterRequest | null = null;
+
+  const postClusterRequest = async (request: ClusterRequest) => {
+    const id = runId() + 1;
+    setRunId(id);
+    cancelSummarize();
     setIsClustering(true);
-    worker.postMessage({
-      type: "RUN_CLUSTER",
-      layer: layer(),
-      method: method(),
-      eps: eps(),
-      minPts: minPts(),
-      k: kMeansK(),
-      runId: nextId,
+    setWorkerError(null);
+    lastClusterRequest = request;
+    failedSubcluster = null;
+    const controller = new AbortController();
+    clusterAbort = controller;
+    try {
+      const result = await client.cluster(request, { signal: controller.signal });
+      // a newer run or image set has taken over
+      if (id !== runId()) return;
+      setLabels(result.labels.map(String));
+      setResultMetric(result.metric);
+      setTree(result.tree ?? null);
+      setReachability(result.reachability ?? null);
+      setQuality(result.quality ?? null);
+      setQualityIds(null);
+      setLastSeed(result.seed ?? null);
+      setClusterDists(distMapsFrom(result.summaries));
+      // the cut moved while the tree was being built
+      if (result.tree && request.k !== kMeansK()) recut();
+    } catch (error) {
+      if (id === runId()) reportFailure("cluster", error);
+    } finally {
+      if (clusterAbort === controller) clusterAbort = null;
+      if (id === runId()) setIsClustering(false);
+    }
+  };
+
+  const runCluster = () => {
+    if (!ready() || !hasDistributions()) return;
+    void postClusterRequest(clusterRequest());
+  };
+
+  // new labels for the shown images: panels follow at once, pie charts and scores once
+  // the worker has summarized
+  const relabel = (next: ClusterId[]) => {
+    setLabels(next);
+    cancelSummarize();
+    // edits belong to the run they were made on; a newer run or image set drops the summary
+    const id = runId();
+    const controller = new AbortController();
+    summarizeAbort = controller;
+    summarizeTimer = setTimeout(async () => {
+      try {
+        const { labels: dense, ids } = denseLabels(next);
+        const { summaries, quality } = await client.summarize(dense, { signal: controller.signal });
+        if (id !== runId()) return;
+        setClusterDists(distMapsFrom(summaries, ids));
+        setQuality(quality ?? null);
+        setQualityIds(ids);
+      } catch (error) {
+        if (id === runId()) reportFailure("cluster", error);
+      } finally {
+        if (summarizeAbort === controller) summarizeAbort = null;
+      }
+    }, SUMMARIZE_DELAY_MS);
+  };
+
+  // re-cut the current tree
+  const recut = () => {
+    const current = tree();
+    if (current) relabel(cutDendrogram(current, kMeansK()).map(String));
+  };
+
+  // Manual curation edits the shown labels in place; they hold until the next run.
+  const moveImages = (idxs: number[], target: ClusterId) => {
+    const current = labels();
+    if (!current || idxs.every((i) => current[i] === target)) return;
+    const next = [...current];
+    idxs.forEach((i) => (next[i] = target));
+    relabel(next);
+  };
+
+  const mergeClusters = (from: ClusterId, into: ClusterId) => {
+    const current = labels();
+    if (!current || from === into) return;
+    relabel(current.map((l) => (l === from ? into : l)));
+  };
+
+  // Panels for clusters an edit creates go in a row to the right of `anchor`, `offset`
+  // widths over; the seeding effect leaves placed panels where they are.
+  const placeBeside = (anchor: ClusterId, ids: ClusterId[], offset = 1) => {
+    const base = panelStates()[anchor];
+    if (!base) return;
+    let z = zTop();
+    setPanelStates((prev) => {
+      const placed = { ...prev };
+      ids.forEach((id, n) => {
+        z += 1;
+        placed[id] = { ...base, id, x: base.x + (n + offset) * (base.width + SPAWN_PANEL_GAP), zIndex: z };
+      });
+      return placed;
     });
+    setZTop(z);
+  };
+
+  const splitCluster = (source: ClusterId, idxs: number[]) => {
+    const current = labels();
+    if (!current || !idxs.length) return;
+    const id = String(current.reduce((max, l) => Math.max(max, topLabel(l)), -1) + 1);
+    placeBeside(source, [id]);
+    moveImages(idxs, id);
+  };
+
+  let failedSubcluster: { parent: ClusterId; settings: SubclusterSettings } | null = null;
+
+  // Cluster one cluster's images on their own. The children take the parent's place,
+  // laid out in a row from where its panel stood.
+  const runSubcluster = async (parent: ClusterId, settings: SubclusterSettings) => {
+    const base = labels();
+    if (!base || isSubclustering()) return;
+    const indices = base.flatMap((id, i) => (id === parent ? [i] : []));
+    if (indices.length < 2) return;
+    setIsSubclustering(true);
+    setWorkerError(null);
+    failedSubcluster = null;
+    const controller = new AbortController();
+    subclusterAbort = controller;
+    try {
+      const request: ClusterRequest = { ...clusterRequest(), ...settings, layerWeights: null, indices };
+      const result = await client.cluster(request, { signal: controller.signal });
+      // a run, edit or new image set replaced the labels meanwhile
+      if (labels() !== base) return;
+      const next = [...base];
+      result.labels.forEach((label, j) => (next[indices[j]] = childId(parent, label)));
+      const children = [...new Set(result.labels)].sort((a, b) => compareIds(String(a), String(b)));
+      // the first child takes the parent's place
+      placeBeside(parent, children.map((label) => childId(parent, label)), 0);
+      relabel(next);
+      setSubclusterTarget(null);
+      deletePanel(SUBCLUSTER_WINDOW_ID);
+    } catch (error) {
+      failedSubcluster = { parent, settings };
+      reportFailure("cluster", error);
+    } finally {
+      if (subclusterAbort === controller) subclusterAbort = null;
+      setIsSubclustering(false);
+    }
+  };
+
+  const openSubcluster = (id: ClusterId) => {
+    setSubclusterTarget(id);
+    openToolWindow(SUBCLUSTER_WINDOW_ID, SUBCLUSTER_WINDOW_WIDTH, SUBCLUSTER_WINDOW_HEIGHT);
+  };
+
+  const changeK = (k: number) => {
+    setKMeansK(k);
+    if (method() === "agglomerative" && tree() && !isClustering()) recut();
+  };
+
+  const retryFailed = () => {
+    const err = workerError();
+    if (!err) return;
+    setWorkerError(null);
+    if (err.stage === "init") startInit();
+    if (err.stage === "load") loadFiles(lastFiles);
+    if (err.stage === "extract") extractPalettes();
+    if (err.stage === "compare") compareResolutions();
+    if (err.stage === "suggest") suggestParams();
+    if (err.stage === "taxonomy") loadTaxonomy(lastTaxonomyFile);
+    if (err.stage === "cache") clearCache();
+    if (err.stage === "cluster") {
+      if (failedSubcluster) void runSubcluster(failedSubcluster.parent, failedSubcluster.settings);
+      else if (lastClusterRequest) postClusterRequest(lastClusterRequest);
+    }
   };
 
   // debounce after the first run so tweaks don't jitter the UI
   createEffect(() => {
     layer();
+    // the weights only reach the worker while layers are mixed
+    if (mixLayers()) layerWeights();
+    embedding();
     method();
     eps();
     minPts();
-    kMeansK();
+    minClusterSize();
+    linkage();
+    metric();
+    kMeansSeed();
+    kMeansRestarts();
+    kMeansMaxIter();
+    // an agglomerative tree is re-cut in place (see changeK) rather than rebuilt
+    if (method() !== "agglomerative") kMeansK();
     if (!ready() || !hasRun()) return;
+    // the in-flight run uses stale parameters; stop it now instead of after it finishes
+    if (untrack(isClustering)) cancelClusterRun();
     const timer = setTimeout(runCluster, 500);
-    return () => clearTimeout(timer);
+    onCleanup(() => clearTimeout(timer));
+  });
+
+  const chartLayerOptions = createMemo(() => {
+    const info = taxonomy();
+    if (!info) return [];
+    return info.chartLayers.map((key) => info.layers.find((l) => l.key === key) ?? { key, label: key });
   });
 
   const clusters = createMemo(() => {
     if (!labels()) return [];
-    const map = new Map<number, number[]>();
+    const map = new Map<ClusterId, number[]>();
     labels()!.forEach((lab, i) => {
       if (!map.has(lab)) map.set(lab, []);
       map.get(lab)!.push(i);
     });
-    return [...map.entries()].sort((a, b) => {
-      if (a[0] === -1) return 1;
-      if (b[0] === -1) return -1;
-      return a[0] - b[0];
-    });
+    return [...map.entries()].sort((a, b) => compareIds(a[0], b[0]));
   });
 
+  // ids of the shown clusters, ungrouped images left out
+  const clusterLabels = createMemo(() => clusters().map(([lab]) => lab).filter((lab) => !isUngrouped(lab)));
+
   const chartPanelIds = createMemo(() => Object.keys(panelStates()).filter((id) => id.startsWith("chart-")));
 
-  // seed panel rectangles when clusters change and drop stale panels
+  // Seed panel rectangles when clusters change and drop stale panels. Only clusters that
+  // arrive without a panel re-grid the canvas; edits place their own panels beforehand.
   createEffect(() => {
     const g = clusters();
     let highest = zTop();
-    let touched = false;
+    let seeded = false;
     const clusterIds = new Set(g.map(([lab]) => String(lab)));
     setPanelStates((prev) => {
       const next = { ...prev };
       Object.keys(next).forEach((id) => {
+        if (id.startsWith(TOOL_PREFIX)) return;
         if (id.startsWith("chart-")) {
           const base = id.slice("chart-".length);
-          if (!clusterIds.has(base)) {
-            touched = true;
-            delete next[id];
-          }
+          if (!clusterIds.has(base)) delete next[id];
           return;
         }
-        if (!clusterIds.has(id)) {
-          touched = true;
-          delete next[id];
-        }
+        if (!clusterIds.has(id)) delete next[id];
       });
       g.forEach(([lab], idx) => {
         const key = String(lab);
         if (!next[key]) {
-          touched = true;
+          seeded = true;
           highest += 1;
           next[key] = defaultPlacement(key, idx);
           next[key].zIndex = highest;
@@ -230,8 +910,9 @@ export default function App() {
       });
       return next;
     });
-    if (touched) setZTop(highest);
-    if (touched) queueMicrotask(() => arrangePanels());
+    if (!seeded) return;
+    setZTop(highest);
+    queueMicrotask(() => arrangePanels());
   });
 
   const bumpZ = (id: string) => {
@@ -315,7 +996,7 @@ export default function App() {
     setPreviewPanel({ ...current, x: newX, y: newY, width, height });
   };
 
-  const openChartWindow = (clusterId: number, center: { x: number; y: number }) => {
+  const openChartWindow = (clusterId: ClusterId, center: { x: number; y: number }) => {
     const id = `chart-${clusterId}`;
     const width = CHART_WINDOW_WIDTH;
     const height = CHART_WINDOW_HEIGHT;
@@ -333,6 +1014,20 @@ export default function App() {
     });
   };
 
+  const openToolWindow = (id: string, width: number, height: number) => {
+    const center = zoomPan.screenToWorld({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+    const nextZ = zTop() + 1;
+    setZTop(nextZ);
+    setPanelStates((prev) => {
+      const existing = prev[id];
+      if (existing) return { ...prev, [id]: { ...existing, zIndex: nextZ } };
+      return {
+        ...prev,
+        [id]: { id, x: center.x - width / 2, y: center.y - height / 2, width, height, zIndex: nextZ },
+      };
+    });
+  };
+
   const openPhotoPreview = (idx: number) => {
     const ratio = PHOTO_WINDOW_RATIO;
     const size = previewSizePx();
@@ -410,7 +1105,25 @@ export default function App() {
     zoomPan.focusRect(panel, CLUSTER_FOCUS_PAD);
   };
 
-  const thumbSrc = (i: number) => imageUrls()?.[i] ?? assetUrl(`sample-images/${i + 1}.jpg`);
+  const focusCluster = (id: ClusterId) => {
+    const order = clusters().findIndex(([lab]) => lab === id);
+    if (order < 0) return;
+    focusClusterPanel(id, defaultPlacement(id, order));
+  };
+
+  const thumbSrc = (i: number) => imageRecords()[i]?.url ?? "";
+  const imageName = (i: number) => imageRecords()[i]?.name ?? `image ${i + 1}`;
+  const previewRecord = () => {
+    const idx = previewImageIdx();
+    return idx !== null ? imageRecords()[idx] : undefined;
+  };
+
+  const exportClusters = () => {
+    const current = labels();
+    if (!current) return;
+    downloadText("huegraph-clusters.csv", buildClusterCsv(imageRecords(), current));
+  };
+
   const arrangePanels = () => {
     const entries = Object.entries(panelStates());
     const n = entries.length;
@@ -493,7 +1206,12 @@ export default function App() {
   };
 
   return (
-    <div class="workspace-shell">
+    <div
+      class="workspace-shell"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <div class="brand-mark">
         <div class="brand-title">HueGraph</div>
         <div class="brand-subtitle">client-side color clustering</div>
@@ -515,14 +1233,41 @@ export default function App() {
             arrangePanels={arrangePanels}
             layer={layer()}
             setLayer={setLayer}
+            mixLayers={mixLayers()}
+            setMixLayers={changeMixLayers}
+            layerWeights={layerWeights()}
+            setLayerWeight={(key, value) => setLayerWeights((weights) => ({ ...weights, [key]: value }))}
+            embedding={embedding()}
+            setEmbedding={setEmbedding}
             method={method()}
             setMethod={setMethod}
             eps={eps()}
             setEps={setEps}
             minPts={minPts()}
             setMinPts={setMinPts}
+            minClusterSize={minClusterSize()}
+            setMinClusterSize={setMinClusterSize}
             kMeansK={kMeansK()}
-            setKMeansK={setKMeansK}
+            setKMeansK={changeK}
+            kMeansSeed={kMeansSeed()}
+            setKMeansSeed={setKMeansSeed}
+            lastSeed={lastSeed()}
+            kMeansRestarts={kMeansRestarts()}
+            setKMeansRestarts={setKMeansRestarts}
+            kMeansMaxIter={kMeansMaxIter()}
+            setKMeansMaxIter={setKMeansMaxIter}
+            linkage={linkage()}
+            setLinkage={setLinkage}
+            metric={metric()}
+            setMetric={setMetric}
+            hasTree={tree() !== null}
+            openDendrogram={() => openToolWindow(DENDROGRAM_WINDOW_ID, DENDROGRAM_WINDOW_WIDTH, DENDROGRAM_WINDOW_HEIGHT)}
+            hasQuality={quality() !== null}
+            openQuality={() => openToolWindow(QUALITY_WINDOW_ID, QUALITY_WINDOW_WIDTH, QUALITY_WINDOW_HEIGHT)}
+            hasReachability={reachability() !== null}
+            openReachability={() =>
+              openToolWindow(REACHABILITY_WINDOW_ID, REACHABILITY_WINDOW_WIDTH, REACHABILITY_WINDOW_HEIGHT)
+            }
             isClustering={isClustering()}
             hasRun={hasRun()}
             runCluster={() => {
@@ -530,18 +1275,67 @@ export default function App() {
               runCluster();
             }}
             progress={progress()}
+            loading={loading()}
             ready={ready()}
+            openFiles={loadFiles}
+            extracting={extracting()}
+            hasDistributions={hasDistributions()}
+            extractPalettes={extractPalettes}
+            canCancel={isClustering() || extracting() || isComparing() || isSuggesting() || isSubclustering()}
+            cancel={cancelWork}
+            canExport={labels() !== null}
+            exportClusters={exportClusters}
+            clearCache={clearCache}
+            analysisEdge={analysisEdge()}
+            analysisEdgeOptions={ANALYSIS_EDGE_OPTIONS}
+            setAnalysisEdge={changeAnalysisEdge}
+            matchSpace={matchSpace()}
+            setMatchSpace={changeMatchSpace}
+            extractor={extractor()}
+            setExtractor={changeExtractor}
+            kColors={kColors()}
+            setKColors={changeKColors}
+            canExcludeNeutral={taxonomy()?.hasNeutral ?? false}
+            excludeNeutral={excludeNeutral()}
+            setExcludeNeutral={changeExcludeNeutral}
+            pixelFilter={pixelFilter()}
+            setPixelFilter={changePixelFilter}
+            layers={taxonomy()?.layers ?? []}
+            taxonomyName={taxonomy()?.builtin === false ? taxonomy()!.name : null}
+            importTaxonomy={importTaxonomy}
+            resetTaxonomy={() => loadTaxonomy()}
+            isComparing={isComparing()}
+            isSuggesting={isSuggesting()}
+            suggestParams={suggestParams}
+            compareResolutions={compareResolutions}
+            notice={notice()}
           />
         </SideDrawer>
       </Show>
 
       <Show when={!ready()}>
         <div class="floating-hint">
-          <div class="text-lg font-semibold">Loading samples</div>
-          <Show when={progress()}>
-            <div class="text-xs opacity-80">
-              {progress()!.phase}: {progress()!.done}/{progress()!.total}
-            </div>
+          <Show
+            when={!loadStopped()}
+            fallback={
+              <>
+                <div class="text-lg font-semibold">{workerError() ? "Loading failed" : "Loading cancelled"}</div>
+                <div class="text-xs opacity-80">Drop your own images here, or load the bundled samples.</div>
+                <button class="ghost-button small hint-button" onClick={startInit}>
+                  Load samples
+                </button>
+              </>
+            }
+          >
+            <div class="text-lg font-semibold">Loading images</div>
+            <Show when={progress()}>
+              <div class="text-xs opacity-80">
+                {progress()!.phase}: {progress()!.done}/{progress()!.total}
+              </div>
+            </Show>
+            <button class="ghost-button small hint-button" onClick={cancelWork}>
+              Cancel
+            </button>
           </Show>
         </div>
       </Show>
@@ -558,24 +1352,31 @@ export default function App() {
 
           <For each={clusters()}>
             {([lab, idxs], order) => {
-              const key = String(lab);
+              const key = lab;
               const fallback = defaultPlacement(key, order());
               return (
                 <ClusterPanel
                   label={lab}
                   count={idxs.length}
+                  metric={resultMetric()}
                   fallback={fallback}
                   items={idxs}
                   state={() => panelStates()[key]}
                   bringToFront={() => bumpZ(key)}
                   onUpdate={(patch) => updatePanel(key, patch)}
                   imageForIndex={thumbSrc}
+                  nameForIndex={imageName}
                   order={order()}
                   zoom={zoomPan.zoom}
                   onFocus={() => focusClusterPanel(key, fallback)}
                   onMaximizeToggle={() => toggleMaximize(key)}
                   onPhotoPreview={openPhotoPreview}
                   onOpenChart={openChartWindow}
+                  mergeTargets={isUngrouped(lab) ? [] : clusterLabels().filter((other) => other !== lab)}
+                  onMerge={(into) => mergeClusters(lab, into)}
+                  onSplit={(idxs) => splitCluster(lab, idxs)}
+                  onMoveImages={(moved) => moveImages(moved, lab)}
+                  onSubcluster={() => openSubcluster(lab)}
                 />
               );
             }}
@@ -589,7 +1390,8 @@ export default function App() {
                 <Show when={placement()}>
                   <PieChartWindow
                     placement={placement}
-                    data={clusterDists()[clusterKey] ?? []}
+                    layers={chartLayerOptions()}
+                    dataFor={(chartLayer) => clusterDists()[chartLayer]?.[clusterKey] ?? []}
                     onClose={() => deletePanel(id)}
                     onUpdate={(patch) => updatePanel(id, patch)}
                     bringToFront={() => bumpZ(id)}
@@ -601,6 +1403,129 @@ export default function App() {
             }}
           </For>
 
+          <Show when={panelStates()[RESOLUTION_WINDOW_ID] && resolutionReport()}>
+            <ResolutionReportWindow
+              placement={() => panelStates()[RESOLUTION_WINDOW_ID]}
+              report={resolutionReport()!}
+              currentEdge={analysisEdge()}
+              onPickEdge={changeAnalysisEdge}
+              onClose={() => deletePanel(RESOLUTION_WINDOW_ID)}
+              onUpdate={(patch) => updatePanel(RESOLUTION_WINDOW_ID, patch)}
+              bringToFront={() => bumpZ(RESOLUTION_WINDOW_ID)}
+              zoom={zoomPan.zoom}
+              onMaximizeToggle={() => toggleMaximize(RESOLUTION_WINDOW_ID)}
+            />
+          </Show>
+
+          <Show when={panelStates()[DENDROGRAM_WINDOW_ID] && tree()}>
+            {(current) => (
+              <DendrogramWindow
+                placement={() => panelStates()[DENDROGRAM_WINDOW_ID]}
+                tree={current()}
+                k={kMeansK()}
+                onCut={changeK}
+                onClose={() => deletePanel(DENDROGRAM_WINDOW_ID)}
+                onUpdate={(patch) => updatePanel(DENDROGRAM_WINDOW_ID, patch)}
+                bringToFront={() => bumpZ(DENDROGRAM_WINDOW_ID)}
+                zoom={zoomPan.zoom}
+                onMaximizeToggle={() => toggleMaximize(DENDROGRAM_WINDOW_ID)}
+              />
+            )}
+          </Show>
+
+          <Show when={panelStates()[QUALITY_WINDOW_ID] && quality()}>
+            {(current) => (
+              <QualityWindow
+                placement={() => panelStates()[QUALITY_WINDOW_ID]}
+                quality={current()}
+                idFor={(label) => qualityIds()?.[label] ?? String(label)}
+                onFocusCluster={focusCluster}
+                onClose={() => deletePanel(QUALITY_WINDOW_ID)}
+                onUpdate={(patch) => updatePanel(QUALITY_WINDOW_ID, patch)}
+                bringToFront={() => bumpZ(QUALITY_WINDOW_ID)}
+                zoom={zoomPan.zoom}
+                onMaximizeToggle={() => toggleMaximize(QUALITY_WINDOW_ID)}
+              />
+            )}
+          </Show>
+
+          {/* keyed: each cluster drilled into gets a fresh form */}
+          <Show when={panelStates()[SUBCLUSTER_WINDOW_ID] && subclusterTarget()} keyed>
+            {(target) => (
+              <SubclusterWindow
+                placement={() => panelStates()[SUBCLUSTER_WINDOW_ID]}
+                title={groupTitle(target)}
+                size={clusters().find(([lab]) => lab === target)?.[1].length ?? 0}
+                layers={taxonomy()?.layers ?? []}
+                defaults={{
+                  method: method() === "kmeans" ? "kmeans" : "dbscan",
+                  layer: layer(),
+                  eps: eps(),
+                  minPts: minPts(),
+                  k: kMeansK(),
+                }}
+                busy={isSubclustering()}
+                onRun={(settings) => void runSubcluster(target, settings)}
+                onClose={() => deletePanel(SUBCLUSTER_WINDOW_ID)}
+                onUpdate={(patch) => updatePanel(SUBCLUSTER_WINDOW_ID, patch)}
+                bringToFront={() => bumpZ(SUBCLUSTER_WINDOW_ID)}
+                zoom={zoomPan.zoom}
+                onMaximizeToggle={() => toggleMaximize(SUBCLUSTER_WINDOW_ID)}
+              />
+            )}
+          </Show>
+
+          <Show when={panelStates()[SUGGEST_WINDOW_ID] && suggestion()}>
+            {(current) => (
+              <SuggestWindow
+                placement={() => panelStates()[SUGGEST_WINDOW_ID]}
+                suggestion={current()}
+                eps={eps()}
+                k={kMeansK()}
+                onPickEps={pickEps}
+                onPickK={pickK}
+                onClose={() => deletePanel(SUGGEST_WINDOW_ID)}
+                onUpdate={(patch) => updatePanel(SUGGEST_WINDOW_ID, patch)}
+                bringToFront={() => bumpZ(SUGGEST_WINDOW_ID)}
+                zoom={zoomPan.zoom}
+                onMaximizeToggle={() => toggleMaximize(SUGGEST_WINDOW_ID)}
+              />
+            )}
+          </Show>
+
+          <Show when={panelStates()[REACHABILITY_WINDOW_ID] && reachability()}>
+            {(current) => (
+              <ReachabilityWindow
+                placement={() => panelStates()[REACHABILITY_WINDOW_ID]}
+                plot={current()}
+                labels={(labels() ?? []).map(topLabel)}
+                onClose={() => deletePanel(REACHABILITY_WINDOW_ID)}
+                onUpdate={(patch) => updatePanel(REACHABILITY_WINDOW_ID, patch)}
+                bringToFront={() => bumpZ(REACHABILITY_WINDOW_ID)}
+                zoom={zoomPan.zoom}
+                onMaximizeToggle={() => toggleMaximize(REACHABILITY_WINDOW_ID)}
+              />
+            )}
+          </Show>
+
+          {/* keyed: a newly imported file remounts the form with its own guessed mapping */}
+          <Show when={panelStates()[TAXONOMY_WINDOW_ID] && taxonomyDraft()} keyed>
+            {(draft) => (
+              <TaxonomyMappingWindow
+                placement={() => panelStates()[TAXONOMY_WINDOW_ID]}
+                fileName={draft.name}
+                table={draft.table}
+                initialMapping={draft.mapping}
+                onApply={applyTaxonomyDraft}
+                onClose={closeTaxonomyWindow}
+                onUpdate={(patch) => updatePanel(TAXONOMY_WINDOW_ID, patch)}
+                bringToFront={() => bumpZ(TAXONOMY_WINDOW_ID)}
+                zoom={zoomPan.zoom}
+                onMaximizeToggle={() => toggleMaximize(TAXONOMY_WINDOW_ID)}
+              />
+            )}
+          </Show>
+
           <Show when={previewPanel() && previewImageIdx() !== null}>
             <PhotoWindow
               placement={() => previewPanel() ?? undefined}
@@ -608,6 +1533,8 @@ export default function App() {
               onUpdate={updatePhotoPreview}
               onClose={closePhotoPreview}
               imageSrc={previewImageIdx() !== null ? thumbSrc(previewImageIdx()!) : ""}
+              title={previewRecord()?.name}
+              subtitle={previewRecord() ? describeImage(previewRecord()!) : undefined}
               zoom={zoomPan.zoom}
               onMaximizeToggle={togglePreviewMaximize}
             />
@@ -618,6 +1545,14 @@ export default function App() {
           <div class="status-chip">Clustering…</div>
         </Show>
       </div>
+      <Show when={workerError()}>
+        <ErrorBanner error={workerError()!} onRetry={retryFailed} onDismiss={() => setWorkerError(null)} />
+      </Show>
+      <Show when={dragActive()}>
+        <div class="drop-overlay">
+          <div class="drop-overlay__card">Drop images, folders or .tar/.tar.gz archives</div>
+        </div>
+      </Show>
       <ZoomWidget zoom={zoomPan.zoom} zoomIn={zoomPan.zoomIn} zoomOut={zoomPan.zoomOut} reset={resetView} />
       <Show when={previewPanel() && previewImageIdx() !== null}>
         <PhotoWindow
@@ -626,6 +1561,8 @@ export default function App() {
           onUpdate={updatePhotoPreview}
           onClose={closePhotoPreview}
           imageSrc={previewImageIdx() !== null ? thumbSrc(previewImageIdx()!) : ""}
+          title={previewRecord()?.name}
+          subtitle={previewRecord() ? describeImage(previewRecord()!) : undefined}
           zoom={zoomPan.zoom}
           onMaximizeToggle={togglePreviewMaximize}
         />
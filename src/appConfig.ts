@@ -35,13 +35,51 @@ export const MIN_PTS_DEFAULT = 3;
 export const MIN_PTS_MIN = 2;
 export const MIN_PTS_MAX = 20;
 export const MIN_PTS_STEP = 1;
+export const MIN_CLUSTER_SIZE_DEFAULT = 5;
+export const MIN_CLUSTER_SIZE_MIN = 2;
+export const MIN_CLUSTER_SIZE_MAX = 50;
+export const MIN_CLUSTER_SIZE_STEP = 1;
 
 export const KMEANS_DEFAULT = 8;
+export const LINKAGE_DEFAULT = "ward";
+// the distance k-means and Ward always run in, so switching methods keeps one scale
+export const METRIC_DEFAULT = "hellinger";
 export const KMEANS_MIN = 2;
 export const KMEANS_MAX = 24;
 export const KMEANS_STEP = 1;
+// k-means runs from different k-means++ seeds; the lowest-inertia partition is kept
+export const KMEANS_RESTARTS_DEFAULT = 4;
+export const KMEANS_RESTARTS_MIN = 1;
+export const KMEANS_RESTARTS_MAX = 20;
+export const KMEANS_MAX_ITER_DEFAULT = 300;
+export const KMEANS_MAX_ITER_MIN = 10;
+export const KMEANS_MAX_ITER_MAX = 1000;
+export const KMEANS_MAX_ITER_STEP = 10;
+// mixed layers: a weight per layer, normalized by the worker to sum to 1
+export const LAYER_WEIGHT_MIN = 0;
+export const LAYER_WEIGHT_MAX = 1;
+export const LAYER_WEIGHT_STEP = 0.05;
 
-export const K_COLORS = 6;
+// palette colors extracted per image
+export const K_COLORS_DEFAULT = 6;
+export const K_COLORS_MIN = 2;
+export const K_COLORS_MAX = 16;
+export const K_COLORS_STEP = 1;
+export const ANALYSIS_EDGE_DEFAULT = 512;
+// longest edge (px) images are downscaled to before palette extraction; 0 = full resolution
+export const ANALYSIS_EDGE_OPTIONS = [256, 512, 1024, 0];
+export const MATCH_SPACE_DEFAULT = "rgb";
+export const EXTRACTOR_DEFAULT = "colorgram";
+// drop greys and other neutral palette mass before clustering
+export const EXCLUDE_NEUTRAL_DEFAULT = false;
+export const EMBEDDING_DEFAULT = "histogram";
+// see PixelFilter in types.ts; transparent pixels are ignored unless turned off
+export const PIXEL_FILTER_DEFAULT = { ignoreTransparent: true, dropBorder: false, centerWeight: false };
+
+// palette extraction workers; 0 sizes the pool from navigator.hardwareConcurrency
+export const EXTRACT_POOL_SIZE = 0;
+
+export const NOTICE_DURATION_MS = 2500;
 
 export const CLUSTER_LAYOUT_PAD_LEFT = 40;
 export const CLUSTER_LAYOUT_PAD_RIGHT = 40;
@@ -1,6 +1,9 @@
-import { Show, createSignal, onCleanup, onMount } from "solid-js";
+import { For, Show, createSignal, onCleanup, onMount } from "solid-js";
+
+export type ActionMenuItem = { value: string; label: string; disabled?: boolean };
 
 export type ActionMenuProps = {
+  items: ActionMenuItem[];
   onSelect: (value: string) => void;
 };
 
@@ -38,12 +41,18 @@ export default function ActionMenu(props: ActionMenuProps) {
       </button>
       <Show when={open()}>
         <div class="action-menu__list">
-          <button class="action-menu__item" type="button" onClick={() => fire("focus")}>
-            Bring into view
-          </button>
-          <button class="action-menu__item" type="button" onClick={() => fire("chart")}>
-            Color families pie
-          </button>
+          <For each={props.items}>
+            {(item) => (
+              <button
+                class="action-menu__item"
+                type="button"
+                disabled={item.disabled}
+                onClick={() => fire(item.value)}
+              >
+                {item.label}
+              </button>
+            )}
+          </For>
         </div>
       </Show>
     </div>
@@ -1,16 +1,20 @@
 import type { Accessor } from "solid-js";
-import { For, createEffect, onCleanup, onMount } from "solid-js";
+import { For, createEffect, createSignal, onCleanup, onMount } from "solid-js";
 import Muuri from "muuri";
 import ActionMenu from "./ActionMenu";
 import WindowBase from "./WindowBase";
-import type { PanelPlacement } from "../types";
+import type { ClusterId, DistanceMetric, PanelPlacement } from "../types";
+import { groupTitle } from "../utils/clusterIds";
 import { CLUSTER_RESIZE_MIN_HEIGHT, CLUSTER_RESIZE_MIN_WIDTH, CLUSTER_THUMB_MARGIN, CLUSTER_THUMB_SIZE } from "../appConfig";
 
 export type ClusterPanelProps = {
-  label: number;
+  label: ClusterId;
   count: number;
+  // distance the clustering used, shown next to the count
+  metric: DistanceMetric;
   items: number[];
   imageForIndex: (idx: number) => string;
+  nameForIndex: (idx: number) => string;
   state: Accessor<PanelPlacement | undefined>;
   fallback: PanelPlacement;
   bringToFront: () => void;
@@ -20,9 +24,20 @@ export type ClusterPanelProps = {
   onFocus: () => void;
   onMaximizeToggle: () => void;
   onPhotoPreview: (idx: number) => void;
-  onOpenChart: (clusterId: number, center: { x: number; y: number }) => void;
+  onOpenChart: (clusterId: ClusterId, center: { x: number; y: number }) => void;
+  // other clusters this one can be merged into
+  mergeTargets: ClusterId[];
+  onMerge: (into: ClusterId) => void;
+  // selected images become a cluster of their own
+  onSplit: (idxs: number[]) => void;
+  // images dropped here from another panel
+  onMoveImages: (idxs: number[]) => void;
+  onSubcluster: () => void;
 };
 
+// thumbnails carry the dragged image indices under this type, as JSON
+const DRAG_TYPE = "application/x-huegraph-images";
+
 export default function ClusterPanel(props: ClusterPanelProps) {
   let gridRef: HTMLDivElement | undefined;
   let bodyRef: HTMLDivElement | undefined;
@@ -31,13 +46,42 @@ export default function ClusterPanel(props: ClusterPanelProps) {
 
   const panelState = () => props.state() ?? props.fallback;
 
-  const titleFor = () => {
-    if (props.label < 0) return "Ungrouped";
-    return `Group ${props.label + 1}`;
-  };
+  const titleFor = () => groupTitle(props.label);
+
+  // images picked for splitting or dragging together
+  const [selected, setSelected] = createSignal<Set<number>>(new Set());
+  const [dropActive, setDropActive] = createSignal(false);
+
+  const toggleSelected = (idx: number) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(idx)) next.add(idx);
+      return next;
+    });
+
+  // images that left the panel drop out of the selection
+  createEffect(() => {
+    const items = new Set(props.items);
+    setSelected((prev) => new Set([...prev].filter((idx) => items.has(idx))));
+  });
+
+  const menuItems = () => [
+    { value: "focus", label: "Bring into view" },
+    { value: "chart", label: "Summary pie chart" },
+    { value: "subcluster", label: "Sub-cluster…", disabled: props.items.length < 2 },
+    {
+      value: "split",
+      label: selected().size ? `Split ${selected().size} selected into new cluster` : "Split selection into new cluster",
+      disabled: !selected().size || selected().size === props.items.length,
+    },
+    ...props.mergeTargets.map((label) => ({ value: `merge:${label}`, label: `Merge into ${groupTitle(label)}` })),
+  ];
 
   const handleAction = (value: string) => {
     if (value === "focus") props.onFocus();
+    if (value === "split") props.onSplit([...selected()]);
+    if (value === "subcluster") props.onSubcluster();
+    if (value.startsWith("merge:")) props.onMerge(value.slice("merge:".length));
     if (value === "chart") {
       const panel = panelState();
       props.onOpenChart(props.label, {
@@ -52,6 +96,8 @@ export default function ClusterPanel(props: ClusterPanelProps) {
     grid?.destroy();
     gridRef.classList.add("muuri-live");
     grid = new Muuri(gridRef, {
+      // thumbnails move between panels by native drag and drop; Muuri's own dragging
+      // would carry DOM nodes Solid renders into another grid
       dragEnabled: false,
       layoutOnResize: false,
       layoutDuration: 220,
@@ -61,6 +107,45 @@ export default function ClusterPanel(props: ClusterPanelProps) {
     grid.layout(true);
   };
 
+  const onDragStart = (e: DragEvent, idx: number) => {
+    const moving = selected().has(idx) ? [...selected()] : [idx];
+    e.dataTransfer?.setData(DRAG_TYPE, JSON.stringify(moving));
+    if (e.dataTransfer) e.dataTransfer.effectAllowed = "move";
+  };
+
+  const onDragOver = (e: DragEvent) => {
+    if (!e.dataTransfer?.types.includes(DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setDropActive(true);
+  };
+
+  // dragleave also fires when crossing into child elements; only reset when leaving the body
+  const onDragLeave = (e: DragEvent) => {
+    if (e.relatedTarget instanceof Node && bodyRef?.contains(e.relatedTarget)) return;
+    setDropActive(false);
+  };
+
+  // indices another panel put on the drag, or none if the payload is not ours
+  const draggedIndices = (data: string) => {
+    try {
+      const parsed: unknown = JSON.parse(data);
+      return Array.isArray(parsed) ? parsed.filter((idx): idx is number => Number.isInteger(idx)) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const onDrop = (e: DragEvent) => {
+    setDropActive(false);
+    const data = e.dataTransfer?.getData(DRAG_TYPE);
+    if (!data) return;
+    e.preventDefault();
+    const own = new Set(props.items);
+    const idxs = draggedIndices(data).filter((idx) => !own.has(idx));
+    if (idxs.length) props.onMoveImages(idxs);
+  };
+
   onMount(() => {
     rebuildGrid();
 
@@ -71,6 +156,10 @@ export default function ClusterPanel(props: ClusterPanelProps) {
       });
     });
     if (bodyRef) resizeObserver.observe(bodyRef);
+
+    bodyRef?.addEventListener("dragover", onDragOver);
+    bodyRef?.addEventListener("dragleave", onDragLeave);
+    bodyRef?.addEventListener("drop", onDrop);
   });
 
   createEffect(() => {
@@ -99,6 +188,9 @@ export default function ClusterPanel(props: ClusterPanelProps) {
   onCleanup(() => {
     resizeObserver?.disconnect();
     grid?.destroy();
+    bodyRef?.removeEventListener("dragover", onDragOver);
+    bodyRef?.removeEventListener("dragleave", onDragLeave);
+    bodyRef?.removeEventListener("drop", onDrop);
   });
 
   return (
@@ -110,8 +202,12 @@ export default function ClusterPanel(props: ClusterPanelProps) {
         zoom={props.zoom}
         class="cluster-panel"
         title={titleFor()}
-        subtitle={`${props.count} items`}
-        headerActions={<div class="cluster-actions"><ActionMenu onSelect={handleAction} /></div>}
+        subtitle={`${props.count} items · ${props.metric}`}
+        headerActions={
+          <div class="cluster-actions">
+            <ActionMenu items={menuItems()} onSelect={handleAction} />
+          </div>
+        }
         onHeaderDblClick={(e) => {
           e.stopPropagation();
           props.onMaximizeToggle();
@@ -119,6 +215,7 @@ export default function ClusterPanel(props: ClusterPanelProps) {
         bodyRef={(el) => {
           bodyRef = el;
         }}
+        bodyClass={dropActive() ? "drop-target" : ""}
         minWidth={CLUSTER_RESIZE_MIN_WIDTH}
         minHeight={CLUSTER_RESIZE_MIN_HEIGHT}
       >
@@ -134,12 +231,16 @@ export default function ClusterPanel(props: ClusterPanelProps) {
           <For each={props.items}>
             {(idx) => (
               <div
-                class="item"
+                class={`item ${selected().has(idx) ? "selected" : ""}`}
+                draggable={true}
+                onDragStart={(e) => onDragStart(e, idx)}
+                onClick={() => toggleSelected(idx)}
                 style={{
                   width: `${CLUSTER_THUMB_SIZE * props.zoom()}px`,
                   height: `${CLUSTER_THUMB_SIZE * props.zoom()}px`,
                   margin: `${CLUSTER_THUMB_MARGIN * props.zoom()}px`,
                 }}
+                title={props.nameForIndex(idx)}
                 onDblClick={() => props.onPhotoPreview(idx)}
               >
                 <div class="item-content">
@@ -149,7 +250,8 @@ export default function ClusterPanel(props: ClusterPanelProps) {
                     height={CLUSTER_THUMB_SIZE}
                     src={props.imageForIndex(idx)}
                     loading="lazy"
-                    alt=""
+                    draggable={false}
+                    alt={props.nameForIndex(idx)}
                   />
                 </div>
               </div>
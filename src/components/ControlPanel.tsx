@@ -1,5 +1,18 @@
-import { For, Show } from "solid-js";
-import type { ClusterMethod, HierKey } from "../types";
+import { For, Show, createSignal } from "solid-js";
+import type {
+  ClusterMethod,
+  DistanceMetric,
+  Embedding,
+  ExtractorKind,
+  HierKey,
+  Linkage,
+  MatchSpace,
+  PixelFilter,
+  SourceFile,
+  TaxonomyLayer,
+} from "../types";
+import { SOURCE_ACCEPT, filesFromList } from "../utils/fileSources";
+import { analysisEdgeLabel } from "../utils/imageInfo";
 import {
   EPS_MAX,
   EPS_MIN,
@@ -7,6 +20,20 @@ import {
   KMEANS_MAX,
   KMEANS_MIN,
   KMEANS_STEP,
+  KMEANS_MAX_ITER_MAX,
+  KMEANS_MAX_ITER_MIN,
+  KMEANS_MAX_ITER_STEP,
+  LAYER_WEIGHT_MAX,
+  LAYER_WEIGHT_MIN,
+  LAYER_WEIGHT_STEP,
+  KMEANS_RESTARTS_MAX,
+  KMEANS_RESTARTS_MIN,
+  MIN_CLUSTER_SIZE_MAX,
+  MIN_CLUSTER_SIZE_MIN,
+  MIN_CLUSTER_SIZE_STEP,
+  K_COLORS_MAX,
+  K_COLORS_MIN,
+  K_COLORS_STEP,
   MIN_PTS_MAX,
   MIN_PTS_MIN,
   MIN_PTS_STEP,
@@ -19,26 +46,109 @@ export type ControlPanelProps = {
   arrangePanels: () => void;
   layer: HierKey;
   setLayer: (value: HierKey) => void;
+  // mixed mode: a weight per layer in place of the single layer
+  mixLayers: boolean;
+  setMixLayers: (value: boolean) => void;
+  layerWeights: Record<HierKey, number>;
+  setLayerWeight: (layer: HierKey, value: number) => void;
+  embedding: Embedding;
+  setEmbedding: (value: Embedding) => void;
   method: ClusterMethod;
   setMethod: (value: ClusterMethod) => void;
   eps: number;
   setEps: (value: number) => void;
   minPts: number;
   setMinPts: (value: number) => void;
+  minClusterSize: number;
+  setMinClusterSize: (value: number) => void;
+  hasReachability: boolean;
+  openReachability: () => void;
   kMeansK: number;
   setKMeansK: (value: number) => void;
+  // null draws a new seed for every run
+  kMeansSeed: number | null;
+  setKMeansSeed: (value: number | null) => void;
+  // seed the last k-means run used
+  lastSeed: number | null;
+  kMeansRestarts: number;
+  setKMeansRestarts: (value: number) => void;
+  kMeansMaxIter: number;
+  setKMeansMaxIter: (value: number) => void;
+  linkage: Linkage;
+  setLinkage: (value: Linkage) => void;
+  metric: DistanceMetric;
+  setMetric: (value: DistanceMetric) => void;
+  // a run has been scored; the scores follow dendrogram cuts too
+  hasQuality: boolean;
+  openQuality: () => void;
+  // an agglomerative run has produced a tree to show
+  hasTree: boolean;
+  openDendrogram: () => void;
   isClustering: boolean;
   hasRun: boolean;
   runCluster: () => void;
   progress: { phase: string; done: number; total: number } | null;
   ready: boolean;
+  // images are being loaded; new ones can't be opened until they finish, as with a drop
+  loading: boolean;
+  openFiles: (files: SourceFile[]) => void;
+  extracting: boolean;
+  hasDistributions: boolean;
+  extractPalettes: () => void;
+  canCancel: boolean;
+  cancel: () => void;
+  canExport: boolean;
+  exportClusters: () => void;
+  clearCache: () => void;
+  notice: string | null;
+  analysisEdge: number;
+  analysisEdgeOptions: number[];
+  setAnalysisEdge: (value: number) => void;
+  matchSpace: MatchSpace;
+  setMatchSpace: (value: MatchSpace) => void;
+  extractor: ExtractorKind;
+  setExtractor: (value: ExtractorKind) => void;
+  kColors: number;
+  setKColors: (value: number) => void;
+  isComparing: boolean;
+  compareResolutions: () => void;
+  isSuggesting: boolean;
+  suggestParams: () => void;
+  layers: TaxonomyLayer[];
+  // only taxonomies that flag neutral entries support excluding them
+  canExcludeNeutral: boolean;
+  excludeNeutral: boolean;
+  setExcludeNeutral: (value: boolean) => void;
+  pixelFilter: PixelFilter;
+  setPixelFilter: (patch: Partial<PixelFilter>) => void;
+  // file name of an imported taxonomy; null while the built-in one is active
+  taxonomyName: string | null;
+  importTaxonomy: (file: File) => void;
+  resetTaxonomy: () => void;
 };
 
 export default function ControlPanel(props: ControlPanelProps) {
+  let fileInputRef: HTMLInputElement | undefined;
+  let folderInputRef: HTMLInputElement | undefined;
+  let taxonomyInputRef: HTMLInputElement | undefined;
+  // follows the colors slider while dragging; committed on release since it re-extracts
+  const [kColorsDraft, setKColorsDraft] = createSignal<number | null>(null);
+
+  const densityMethod = () => props.method === "dbscan" || props.method === "hdbscan" || props.method === "optics";
+
+  const handlePicked = (e: Event & { currentTarget: HTMLInputElement }) => {
+    const files = filesFromList(e.currentTarget.files);
+    // reset so picking the same selection again still fires change
+    e.currentTarget.value = "";
+    props.openFiles(files);
+  };
+
   const statusText = () => {
     if (!props.ready) return "Loading…";
     if (props.isClustering) return "Clustering…";
+    if (props.extracting && !props.progress) return "Extracting…";
     if (props.progress) return props.progress.phase;
+    if (props.notice) return props.notice;
     return "Ready";
   };
 
@@ -59,28 +169,159 @@ export default function ControlPanel(props: ControlPanelProps) {
       <div class="panel-body">
         <div class="pill-row">
           <ToggleGroup
-            label="Layer"
-            value={props.layer}
+            label="Layers"
+            value={props.mixLayers ? "mixed" : "single"}
+            options={[
+              { label: "single", value: "single" },
+              { label: "mixed", value: "mixed" },
+            ]}
+            onChange={(value) => props.setMixLayers(value === "mixed")}
+          />
+          <Show when={!props.mixLayers}>
+            <ToggleGroup
+              label="Layer"
+              value={props.layer}
+              options={props.layers.map((l) => ({ label: l.label, value: l.key as HierKey }))}
+              onChange={props.setLayer}
+            />
+          </Show>
+          <ToggleGroup
+            label="Features"
+            value={props.embedding}
             options={[
-              { label: "xkcd", value: "xkcd_color" as HierKey },
-              { label: "design", value: "design_color" as HierKey },
-              { label: "common", value: "common_color" as HierKey },
-              { label: "family", value: "color_family" as HierKey },
+              { label: "palette", value: "histogram" as Embedding },
+              { label: "layout", value: "layout" as Embedding },
             ]}
-            onChange={props.setLayer}
+            onChange={props.setEmbedding}
           />
           <ToggleGroup
             label="Method"
             value={props.method}
             options={[
               { label: "DBSCAN", value: "dbscan" as ClusterMethod },
+              { label: "HDBSCAN", value: "hdbscan" as ClusterMethod },
+              { label: "OPTICS", value: "optics" as ClusterMethod },
               { label: "K-Means", value: "kmeans" as ClusterMethod },
+              { label: "Hierarchical", value: "agglomerative" as ClusterMethod },
             ]}
             onChange={props.setMethod}
           />
+          <Show when={props.method === "agglomerative"}>
+            <ToggleGroup
+              label="Linkage"
+              value={props.linkage}
+              options={[
+                { label: "Ward", value: "ward" as Linkage },
+                { label: "average", value: "average" as Linkage },
+                { label: "complete", value: "complete" as Linkage },
+              ]}
+              onChange={props.setLinkage}
+            />
+          </Show>
+          {/* k-means and Ward stay on Hellinger, the Euclidean one */}
+          <Show when={props.method !== "kmeans" && !(props.method === "agglomerative" && props.linkage === "ward")}>
+            <ToggleGroup
+              label="Metric"
+              value={props.metric}
+              options={[
+                { label: "Hellinger", value: "hellinger" as DistanceMetric },
+                { label: "JS", value: "jensen-shannon" as DistanceMetric },
+                { label: "χ²", value: "chi-squared" as DistanceMetric },
+                { label: "EMD", value: "emd" as DistanceMetric },
+              ]}
+              onChange={props.setMetric}
+            />
+          </Show>
+          <ToggleGroup
+            label="Analysis"
+            value={String(props.analysisEdge)}
+            options={props.analysisEdgeOptions.map((edge) => ({ label: analysisEdgeLabel(edge), value: String(edge) }))}
+            onChange={(value) => props.setAnalysisEdge(Number(value))}
+          />
+          <ToggleGroup
+            label="Matching"
+            value={props.matchSpace}
+            options={[
+              { label: "RGB", value: "rgb" as MatchSpace },
+              { label: "ΔE76", value: "lab" as MatchSpace },
+              { label: "ΔE2000", value: "ciede2000" as MatchSpace },
+            ]}
+            onChange={props.setMatchSpace}
+          />
+          <ToggleGroup
+            label="Extractor"
+            value={props.extractor}
+            options={[
+              { label: "colorgram", value: "colorgram" as ExtractorKind },
+              { label: "median cut", value: "median-cut" as ExtractorKind },
+              { label: "k-means Lab", value: "kmeans-lab" as ExtractorKind },
+            ]}
+            onChange={props.setExtractor}
+          />
+          <FlagGroup
+            label="Pixels"
+            flags={[
+              {
+                label: "alpha",
+                title: "Weight pixels by opacity so transparent areas are ignored",
+                on: props.pixelFilter.ignoreTransparent,
+                toggle: () => props.setPixelFilter({ ignoreTransparent: !props.pixelFilter.ignoreTransparent }),
+              },
+              {
+                label: "no border",
+                title: "Drop a uniform backdrop (white, black, ...) connected to the image edges",
+                on: props.pixelFilter.dropBorder,
+                toggle: () => props.setPixelFilter({ dropBorder: !props.pixelFilter.dropBorder }),
+              },
+              {
+                label: "center",
+                title: "Count pixels near the center more than those at the edges",
+                on: props.pixelFilter.centerWeight,
+                toggle: () => props.setPixelFilter({ centerWeight: !props.pixelFilter.centerWeight }),
+              },
+            ]}
+          />
+          <Show when={props.canExcludeNeutral}>
+            <ToggleGroup
+              label="Neutrals"
+              value={props.excludeNeutral ? "exclude" : "include"}
+              options={[
+                { label: "include", value: "include" },
+                { label: "exclude", value: "exclude" },
+              ]}
+              onChange={(value) => props.setExcludeNeutral(value === "exclude")}
+            />
+          </Show>
         </div>
 
         <div class="controls-grid">
+          <Show when={props.mixLayers}>
+            <For each={props.layers}>
+              {(l) => (
+                <div class="slider-block">
+                  <div class="slider-label">
+                    <span class="slider-title">
+                      <span>{l.label} weight</span>
+                      <span class="info" title="Share of the embedding this layer takes; weights are scaled to sum to 1.">
+                        i
+                      </span>
+                    </span>
+                    <span class="value">{(props.layerWeights[l.key] ?? 0).toFixed(2)}</span>
+                  </div>
+                  <input
+                    class="slider"
+                    type="range"
+                    min={LAYER_WEIGHT_MIN}
+                    max={LAYER_WEIGHT_MAX}
+                    step={LAYER_WEIGHT_STEP}
+                    value={props.layerWeights[l.key] ?? 0}
+                    onInput={(e) => props.setLayerWeight(l.key, parseFloat(e.currentTarget.value))}
+                  />
+                </div>
+              )}
+            </For>
+          </Show>
+
           <Show when={props.method === "dbscan"}>
             <div class="slider-block">
               <div class="slider-label">
@@ -100,12 +341,23 @@ export default function ControlPanel(props: ControlPanelProps) {
                 onInput={(e) => props.setEps(parseFloat(e.currentTarget.value))}
               />
             </div>
+          </Show>
 
+          <Show when={densityMethod()}>
             <div class="slider-block">
               <div class="slider-label">
                 <span class="slider-title">
-                  <span>Min images</span>
-                  <span class="info" title="Minimum samples required to form a DBSCAN cluster.">i</span>
+                  <span>{props.method === "dbscan" ? "Min images" : "Min samples"}</span>
+                  <span
+                    class="info"
+                    title={
+                      props.method === "dbscan"
+                        ? "Minimum samples required to form a DBSCAN cluster."
+                        : "Neighbors counted for an image's core distance; higher values call more images noise."
+                    }
+                  >
+                    i
+                  </span>
                 </span>
                 <span class="value">{props.minPts}</span>
               </div>
@@ -121,12 +373,47 @@ export default function ControlPanel(props: ControlPanelProps) {
             </div>
           </Show>
 
-          <Show when={props.method === "kmeans"}>
+          <Show when={props.method === "hdbscan" || props.method === "optics"}>
+            <div class="slider-block">
+              <div class="slider-label">
+                <span class="slider-title">
+                  <span>Min cluster size</span>
+                  <span class="info" title="Smallest group reported as a cluster; smaller ones become noise.">i</span>
+                </span>
+                <span class="value">{props.minClusterSize}</span>
+              </div>
+              <input
+                class="slider"
+                type="range"
+                min={MIN_CLUSTER_SIZE_MIN}
+                max={MIN_CLUSTER_SIZE_MAX}
+                step={MIN_CLUSTER_SIZE_STEP}
+                value={props.minClusterSize}
+                onInput={(e) => props.setMinClusterSize(parseInt(e.currentTarget.value))}
+              />
+            </div>
+          </Show>
+          <Show when={props.method === "optics"}>
+            <button class="ghost-button small" disabled={!props.hasReachability} onClick={props.openReachability}>
+              Reachability plot
+            </button>
+          </Show>
+
+          <Show when={props.method === "kmeans" || props.method === "agglomerative"}>
             <div class="slider-block">
               <div class="slider-label">
                 <span class="slider-title">
                   <span>k (clusters)</span>
-                  <span class="info" title="Number of clusters to partition the images into.">i</span>
+                  <span
+                    class="info"
+                    title={
+                      props.method === "agglomerative"
+                        ? "Where the tree is cut; moving it re-cuts the last tree without rebuilding it."
+                        : "Number of clusters to partition the images into."
+                    }
+                  >
+                    i
+                  </span>
                 </span>
                 <span class="value">{props.kMeansK}</span>
               </div>
@@ -141,15 +428,134 @@ export default function ControlPanel(props: ControlPanelProps) {
               />
             </div>
           </Show>
+          <Show when={props.method === "kmeans"}>
+            <div class="slider-block">
+              <div class="slider-label">
+                <span class="slider-title">
+                  <span>Seed</span>
+                  <span class="info" title="Leave empty for a new seed each run; the same seed repeats a run exactly.">
+                    i
+                  </span>
+                </span>
+                <Show when={props.lastSeed !== null && props.lastSeed !== props.kMeansSeed}>
+                  <button
+                    class="ghost-button small"
+                    title="Pin the seed of the last run so re-runs reproduce it"
+                    onClick={() => props.setKMeansSeed(props.lastSeed)}
+                  >
+                    Keep {props.lastSeed}
+                  </button>
+                </Show>
+              </div>
+              <input
+                class="seed-input"
+                type="text"
+                inputmode="numeric"
+                placeholder="random"
+                value={props.kMeansSeed ?? ""}
+                onChange={(e) => {
+                  const seed = parseInt(e.currentTarget.value, 10);
+                  props.setKMeansSeed(Number.isFinite(seed) && seed >= 0 ? seed : null);
+                  e.currentTarget.value = Number.isFinite(seed) && seed >= 0 ? String(seed) : "";
+                }}
+              />
+            </div>
+
+            <div class="slider-block">
+              <div class="slider-label">
+                <span class="slider-title">
+                  <span>Restarts</span>
+                  <span class="info" title="Runs from different k-means++ seeds; the tightest partition is kept.">i</span>
+                </span>
+                <span class="value">{props.kMeansRestarts}</span>
+              </div>
+              <input
+                class="slider"
+                type="range"
+                min={KMEANS_RESTARTS_MIN}
+                max={KMEANS_RESTARTS_MAX}
+                step={1}
+                value={props.kMeansRestarts}
+                onInput={(e) => props.setKMeansRestarts(parseInt(e.currentTarget.value))}
+              />
+            </div>
+
+            <div class="slider-block">
+              <div class="slider-label">
+                <span class="slider-title">
+                  <span>Max iterations</span>
+                  <span class="info" title="Upper bound on assignment passes per run.">i</span>
+                </span>
+                <span class="value">{props.kMeansMaxIter}</span>
+              </div>
+              <input
+                class="slider"
+                type="range"
+                min={KMEANS_MAX_ITER_MIN}
+                max={KMEANS_MAX_ITER_MAX}
+                step={KMEANS_MAX_ITER_STEP}
+                value={props.kMeansMaxIter}
+                onInput={(e) => props.setKMeansMaxIter(parseInt(e.currentTarget.value))}
+              />
+            </div>
+          </Show>
+          <Show when={props.method === "agglomerative"}>
+            <button class="ghost-button small" disabled={!props.hasTree} onClick={props.openDendrogram}>
+              Dendrogram
+            </button>
+          </Show>
+
+          <div class="slider-block">
+            <div class="slider-label">
+              <span class="slider-title">
+                <span>Colors per image</span>
+                <span class="info" title="Palette size extracted from each image; changing it re-extracts every image.">i</span>
+              </span>
+              <span class="value">{kColorsDraft() ?? props.kColors}</span>
+            </div>
+            <input
+              class="slider"
+              type="range"
+              min={K_COLORS_MIN}
+              max={K_COLORS_MAX}
+              step={K_COLORS_STEP}
+              value={props.kColors}
+              onInput={(e) => setKColorsDraft(parseInt(e.currentTarget.value))}
+              onChange={(e) => {
+                setKColorsDraft(null);
+                props.setKColors(parseInt(e.currentTarget.value));
+              }}
+            />
+          </div>
         </div>
 
-        <button
-          class={`run-button ${props.isClustering ? "waiting" : ""}`}
-          disabled={props.isClustering}
-          onClick={props.runCluster}
+        <Show
+          when={props.hasDistributions || props.extracting}
+          fallback={
+            <button class="run-button" onClick={props.extractPalettes}>
+              Extract palettes
+            </button>
+          }
         >
-          {props.isClustering ? "Running…" : props.hasRun ? "Re-run" : "Run"}
-        </button>
+          <button
+            class={`run-button ${props.isClustering || !props.hasDistributions ? "waiting" : ""}`}
+            disabled={props.isClustering || !props.hasDistributions}
+            onClick={props.runCluster}
+          >
+            {props.isClustering
+              ? "Running…"
+              : !props.hasDistributions
+                ? "Extracting palettes…"
+                : props.hasRun
+                  ? "Re-run"
+                  : "Run"}
+          </button>
+        </Show>
+        <Show when={props.canCancel}>
+          <button class="ghost-button cancel-button" onClick={props.cancel}>
+            Cancel
+          </button>
+        </Show>
         <div class="button-row">
           <button class="ghost-button" onClick={props.arrangePanels}>
             Arrange to fit
@@ -157,7 +563,106 @@ export default function ControlPanel(props: ControlPanelProps) {
           <button class="ghost-button" onClick={props.resetView}>
             Reset view
           </button>
+          <button
+            class="ghost-button"
+            title="Forget cached palettes so every image is re-extracted on the next load"
+            onClick={props.clearCache}
+          >
+            Clear cache
+          </button>
+        </div>
+        <div class="button-row">
+          <button class="ghost-button" disabled={props.loading} onClick={() => fileInputRef?.click()}>
+            Open images
+          </button>
+          <button class="ghost-button" disabled={props.loading} onClick={() => folderInputRef?.click()}>
+            Open folder
+          </button>
+          <button class="ghost-button" disabled={!props.canExport} onClick={props.exportClusters}>
+            Export CSV
+          </button>
+        </div>
+        <div class="button-row">
+          <button
+            class="ghost-button"
+            title="Cluster a sample at each analysis resolution and compare against full size"
+            disabled={props.isComparing}
+            onClick={props.compareResolutions}
+          >
+            {props.isComparing ? "Comparing…" : "Compare resolutions"}
+          </button>
+          <button
+            class="ghost-button"
+            title="Silhouette, Davies–Bouldin and Calinski–Harabasz scores of the current clusters"
+            disabled={!props.hasQuality}
+            onClick={props.openQuality}
+          >
+            Cluster quality
+          </button>
+          <Show when={props.method === "dbscan" || props.method === "kmeans" || props.method === "agglomerative"}>
+            <button
+              class="ghost-button"
+              title={
+                props.method === "dbscan"
+                  ? "Plot each image's distance to its min-images-th neighbor and mark the knee as an eps"
+                  : "Score every k by silhouette and inertia"
+              }
+              disabled={props.isSuggesting || !props.hasDistributions}
+              onClick={props.suggestParams}
+            >
+              {props.isSuggesting ? "Suggesting…" : props.method === "dbscan" ? "Suggest eps" : "Suggest k"}
+            </button>
+          </Show>
+        </div>
+        <div class="button-row">
+          <button
+            class="ghost-button"
+            title="Name colors with your own JSON or CSV table of colors and names"
+            disabled={props.extracting}
+            onClick={() => taxonomyInputRef?.click()}
+          >
+            Import taxonomy
+          </button>
+          <Show when={props.taxonomyName}>
+            <button
+              class="ghost-button"
+              title={`Replace ${props.taxonomyName} with the bundled color names`}
+              disabled={props.extracting}
+              onClick={props.resetTaxonomy}
+            >
+              Built-in taxonomy
+            </button>
+          </Show>
         </div>
+        <input
+          ref={fileInputRef}
+          class="visually-hidden"
+          type="file"
+          multiple
+          accept={SOURCE_ACCEPT}
+          onChange={handlePicked}
+        />
+        <input
+          ref={(el) => {
+            folderInputRef = el;
+            el.webkitdirectory = true;
+          }}
+          class="visually-hidden"
+          type="file"
+          multiple
+          onChange={handlePicked}
+        />
+        <input
+          ref={taxonomyInputRef}
+          class="visually-hidden"
+          type="file"
+          accept=".json,.csv"
+          onChange={(e) => {
+            const file = e.currentTarget.files?.[0];
+            e.currentTarget.value = "";
+            if (file) props.importTaxonomy(file);
+          }}
+        />
       </div>
     </div>
   );
@@ -184,3 +689,24 @@ function ToggleGroup<T extends string>(props: {
     </div>
   );
 }
+
+// like ToggleGroup, but each pill switches independently
+function FlagGroup(props: {
+  label: string;
+  flags: { label: string; title: string; on: boolean; toggle: () => void }[];
+}) {
+  return (
+    <div class="toggle-row">
+      <span class="toggle-label">{props.label}</span>
+      <div class="pill-group">
+        <For each={props.flags}>
+          {(flag) => (
+            <button class={`pill ${flag.on ? "active" : ""}`} title={flag.title} onClick={flag.toggle}>
+              {flag.label}
+            </button>
+          )}
+        </For>
+      </div>
+    </div>
+  );
+}
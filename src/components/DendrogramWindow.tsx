@@ -0,0 +1,110 @@
+import type { Accessor } from "solid-js";
+import { createMemo, createSignal } from "solid-js";
+import WindowBase from "./WindowBase";
+import type { Dendrogram, PanelPlacement } from "../types";
+import { clustersAtHeight } from "../workers/agglomerative";
+
+// viewBox units; the SVG stretches to the window
+const VIEW_W = 1000;
+const VIEW_H = 400;
+const PAD = 12;
+
+export type DendrogramWindowProps = {
+  placement: Accessor<PanelPlacement | undefined>;
+  tree: Dendrogram;
+  k: number;
+  onCut: (k: number) => void;
+  onClose: () => void;
+  onUpdate: (patch: Partial<PanelPlacement>) => void;
+  bringToFront: () => void;
+  zoom: Accessor<number>;
+  onMaximizeToggle: () => void;
+};
+
+export default function DendrogramWindow(props: DendrogramWindowProps) {
+  let svgRef: SVGSVGElement | undefined;
+  const [dragging, setDragging] = createSignal(false);
+
+  const maxHeight = () => props.tree.merges[props.tree.merges.length - 1]?.height || 1;
+  const yFor = (height: number) => VIEW_H - PAD - (height / maxHeight()) * (VIEW_H - 2 * PAD);
+
+  // one path for every U-shaped link; leaves are spread in the order a depth-first walk meets them
+  const linksPath = createMemo(() => {
+    const { n, merges } = props.tree;
+    if (!merges.length) return "";
+    const x = new Float64Array(n + merges.length);
+    const y = new Float64Array(n + merges.length).fill(yFor(0));
+    const stack = [n + merges.length - 1];
+    let leaf = 0;
+    const step = (VIEW_W - 2 * PAD) / Math.max(1, n - 1);
+    while (stack.length) {
+      const node = stack.pop()!;
+      if (node < n) x[node] = PAD + step * leaf++;
+      else stack.push(merges[node - n].b, merges[node - n].a);
+    }
+    const parts: string[] = [];
+    merges.forEach((m, i) => {
+      const node = n + i;
+      x[node] = (x[m.a] + x[m.b]) / 2;
+      y[node] = yFor(m.height);
+      parts.push(`M${x[m.a]} ${y[m.a]}V${y[node]}H${x[m.b]}V${y[m.b]}`);
+    });
+    return parts.join("");
+  });
+
+  // halfway between the last merge kept and the first one undone
+  const cutY = () => {
+    const { n, merges } = props.tree;
+    const kept = n - Math.max(1, props.k);
+    const below = kept > 0 ? merges[kept - 1].height : 0;
+    const above = merges[kept]?.height ?? maxHeight();
+    return yFor((below + above) / 2);
+  };
+
+  const cutAt = (ev: PointerEvent) => {
+    if (!svgRef) return;
+    const rect = svgRef.getBoundingClientRect();
+    const viewY = ((ev.clientY - rect.top) / rect.height) * VIEW_H;
+    const height = ((VIEW_H - PAD - viewY) / (VIEW_H - 2 * PAD)) * maxHeight();
+    const k = Math.max(1, clustersAtHeight(props.tree, Math.max(0, height)));
+    if (k !== props.k) props.onCut(k);
+  };
+
+  return (
+    <WindowBase
+      placement={props.placement}
+      onUpdate={props.onUpdate}
+      bringToFront={props.bringToFront}
+      zoom={props.zoom}
+      title="Dendrogram"
+      subtitle={`${props.tree.linkage} linkage · cut at ${props.k} clusters`}
+      onClose={props.onClose}
+      bodyClass="dendrogram-window-body"
+      onHeaderDblClick={(e) => {
+        e.stopPropagation();
+        props.onMaximizeToggle();
+      }}
+    >
+      <svg
+        ref={svgRef}
+        class={`dendrogram-svg ${dragging() ? "dragging" : ""}`}
+        viewBox={`0 0 ${VIEW_W} ${VIEW_H}`}
+        preserveAspectRatio="none"
+        onPointerDown={(e) => {
+          // keep the drag from moving the window or panning the workspace
+          e.stopPropagation();
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDragging(true);
+          cutAt(e);
+        }}
+        onPointerMove={(e) => dragging() && cutAt(e)}
+        onPointerUp={() => setDragging(false)}
+        onPointerCancel={() => setDragging(false)}
+      >
+        <path class="dendrogram-links" d={linksPath()} vector-effect="non-scaling-stroke" />
+        <line class="dendrogram-cut" x1={0} x2={VIEW_W} y1={cutY()} y2={cutY()} vector-effect="non-scaling-stroke" />
+      </svg>
+      <div class="report-note">Drag the cut line up or down to choose the number of clusters.</div>
+    </WindowBase>
+  );
+}
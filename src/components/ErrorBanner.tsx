@@ -0,0 +1,41 @@
+import { Show } from "solid-js";
+import type { WorkerError, WorkerErrorStage } from "../types";
+
+export type ErrorBannerProps = {
+  error: WorkerError;
+  onRetry: () => void;
+  onDismiss: () => void;
+};
+
+const STAGE_LABELS: Record<WorkerErrorStage, string> = {
+  init: "Loading samples",
+  load: "Loading images",
+  extract: "Palette extraction",
+  taxonomy: "Loading the taxonomy",
+  compare: "Resolution comparison",
+  suggest: "Parameter suggestion",
+  cache: "Clearing the cache",
+  cluster: "Clustering",
+  worker: "Background worker",
+};
+
+export default function ErrorBanner(props: ErrorBannerProps) {
+  return (
+    <div class="error-banner" role="alert">
+      <div class="error-banner__text">
+        <div class="error-banner__title">{STAGE_LABELS[props.error.stage]} failed</div>
+        <div class="error-banner__message">{props.error.message}</div>
+      </div>
+      <div class="error-banner__actions">
+        <Show when={props.error.recoverable}>
+          <button class="ghost-button small" onClick={props.onRetry}>
+            Retry
+          </button>
+        </Show>
+        <button class="ghost-button small" onClick={props.onDismiss}>
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
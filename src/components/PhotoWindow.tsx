@@ -8,6 +8,8 @@ export type PhotoWindowProps = {
   onUpdate: (patch: Partial<PanelPlacement>) => void;
   onClose: () => void;
   imageSrc: string;
+  title?: string;
+  subtitle?: string;
   zoom: Accessor<number>;
   onMaximizeToggle?: () => void;
 };
@@ -20,8 +22,8 @@ export default function PhotoWindow(props: PhotoWindowProps) {
       bringToFront={props.bringToFront}
       zoom={props.zoom}
       class="photo-window"
-      title="Photo preview"
-      subtitle="double click thumbnail to reopen"
+      title={props.title ?? "Photo preview"}
+      subtitle={props.subtitle ?? "double click thumbnail to reopen"}
       onClose={props.onClose}
       bodyClass="photo-window-body"
       onHeaderDblClick={(e) => {
@@ -29,7 +31,7 @@ export default function PhotoWindow(props: PhotoWindowProps) {
         props.onMaximizeToggle?.();
       }}
     >
-      <img src={props.imageSrc} alt="" />
+      <img src={props.imageSrc} alt={props.title ?? ""} />
     </WindowBase>
   );
 }
@@ -1,12 +1,14 @@
 import type { Accessor } from "solid-js";
-import { createEffect, onCleanup } from "solid-js";
+import { For, Show, createEffect, createSignal, onCleanup } from "solid-js";
 import { Chart } from "chart.js/auto";
-import type { ClusterColorPart, PanelPlacement } from "../types";
+import type { ClusterColorPart, HierKey, PanelPlacement, TaxonomyLayer } from "../types";
 import WindowBase from "./WindowBase";
 
 export type PieChartWindowProps = {
   placement: Accessor<PanelPlacement | undefined>;
-  data: ClusterColorPart[];
+  // chart layers of the taxonomy; the first is the default summary
+  layers: TaxonomyLayer[];
+  dataFor: (layer: HierKey) => ClusterColorPart[];
   onClose: () => void;
   onUpdate: (patch: Partial<PanelPlacement>) => void;
   bringToFront: () => void;
@@ -15,6 +17,9 @@ export type PieChartWindowProps = {
 };
 
 export default function PieChartWindow(props: PieChartWindowProps) {
+  const [picked, setPicked] = createSignal<HierKey | null>(null);
+  // falls back to the summary layer when a new taxonomy lacks the picked one
+  const current = () => props.layers.find((l) => l.key === picked()) ?? props.layers[0];
   let canvasRef: HTMLCanvasElement | undefined;
   let chart: Chart | undefined;
   function syncCanvasSize(canvas: HTMLCanvasElement) {
@@ -26,7 +31,8 @@ export default function PieChartWindow(props: PieChartWindowProps) {
 
 
   createEffect(() => {
-    const data = props.data;
+    const layer = current();
+    const data = layer ? props.dataFor(layer.key) : [];
     if (!canvasRef) return;
 
     syncCanvasSize(canvasRef);
@@ -86,7 +92,19 @@ export default function PieChartWindow(props: PieChartWindowProps) {
       onUpdate={props.onUpdate}
       bringToFront={props.bringToFront}
       zoom={props.zoom}
-      title="Color families"
+      title={current()?.label ?? "Color families"}
+      headerActions={
+        <Show when={props.layers.length > 1}>
+          <select
+            class="cluster-action-select"
+            value={current()?.key}
+            onPointerDown={(e) => e.stopPropagation()}
+            onChange={(e) => setPicked(e.currentTarget.value)}
+          >
+            <For each={props.layers}>{(l) => <option value={l.key}>{l.label}</option>}</For>
+          </select>
+        </Show>
+      }
       subtitle="cluster distribution"
       onClose={props.onClose}
       bodyClass="pie-window-body"
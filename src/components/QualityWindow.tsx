@@ -0,0 +1,94 @@
+import type { Accessor } from "solid-js";
+import { For, Show } from "solid-js";
+import WindowBase from "./WindowBase";
+import type { ClusterId, ClusterQuality, PanelPlacement } from "../types";
+import { groupTitle } from "../utils/clusterIds";
+
+export type QualityWindowProps = {
+  placement: Accessor<PanelPlacement | undefined>;
+  quality: ClusterQuality;
+  // the cluster each scored label stands for
+  idFor: (label: number) => ClusterId;
+  onFocusCluster: (id: ClusterId) => void;
+  onClose: () => void;
+  onUpdate: (patch: Partial<PanelPlacement>) => void;
+  bringToFront: () => void;
+  zoom: Accessor<number>;
+  onMaximizeToggle: () => void;
+};
+
+const score = (value: number | null, digits = 3) => (value === null ? "–" : value.toFixed(digits));
+
+export default function QualityWindow(props: QualityWindowProps) {
+  return (
+    <WindowBase
+      placement={props.placement}
+      onUpdate={props.onUpdate}
+      bringToFront={props.bringToFront}
+      zoom={props.zoom}
+      title="Cluster quality"
+      subtitle={`${props.quality.clusters.length} clusters · ${(props.quality.noiseRatio * 100).toFixed(0)}% noise`}
+      onClose={props.onClose}
+      bodyClass="report-window-body"
+      onHeaderDblClick={(e) => {
+        e.stopPropagation();
+        props.onMaximizeToggle();
+      }}
+    >
+      <div class="quality-scores">
+        <div title="Mean over clustered images; -1..1, higher means tighter, better separated groups">
+          <span>Silhouette</span>
+          <strong>{score(props.quality.silhouette)}</strong>
+        </div>
+        <div title="Average worst-case ratio of spread to separation; lower is better">
+          <span>Davies–Bouldin</span>
+          <strong>{score(props.quality.daviesBouldin)}</strong>
+        </div>
+        <div title="Between-cluster over within-cluster variance; higher is better">
+          <span>Calinski–Harabasz</span>
+          <strong>{score(props.quality.calinskiHarabasz, 1)}</strong>
+        </div>
+        <div title="Share of images left ungrouped">
+          <span>Noise</span>
+          <strong>{(props.quality.noiseRatio * 100).toFixed(1)}%</strong>
+        </div>
+      </div>
+      <Show
+        when={props.quality.clusters.length > 0}
+        fallback={<div class="report-note">Every image was left as noise.</div>}
+      >
+        <table class="report-table">
+          <thead>
+            <tr>
+              <th>Cluster</th>
+              <th>Images</th>
+              <th title="Mean silhouette of the cluster's images">Silhouette</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            <For each={props.quality.clusters}>
+              {(cluster) => (
+                <tr class="quality-row" onClick={() => props.onFocusCluster(props.idFor(cluster.label))}>
+                  <td>{groupTitle(props.idFor(cluster.label))}</td>
+                  <td>{cluster.size}</td>
+                  <td>{cluster.silhouette.toFixed(3)}</td>
+                  <td class="quality-bar-cell">
+                    <div
+                      class={`quality-bar ${cluster.silhouette < 0 ? "negative" : ""}`}
+                      style={{ width: `${Math.min(1, Math.abs(cluster.silhouette)) * 100}%` }}
+                    />
+                  </td>
+                </tr>
+              )}
+            </For>
+          </tbody>
+        </table>
+      </Show>
+      <div class="report-note">
+        Silhouette uses the clustering's distance metric, estimated on a sample of the images for k-means; the
+        other scores use the Hellinger embedding. Click a cluster to focus its panel.
+      </div>
+    </WindowBase>
+  );
+}
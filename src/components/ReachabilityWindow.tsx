@@ -0,0 +1,71 @@
+import type { Accessor } from "solid-js";
+import { createMemo } from "solid-js";
+import WindowBase from "./WindowBase";
+import type { PanelPlacement, Reachability } from "../types";
+
+// viewBox units; the SVG stretches to the window
+const VIEW_W = 1000;
+const VIEW_H = 400;
+const PAD = 12;
+
+export type ReachabilityWindowProps = {
+  placement: Accessor<PanelPlacement | undefined>;
+  plot: Reachability;
+  labels: number[];
+  onClose: () => void;
+  onUpdate: (patch: Partial<PanelPlacement>) => void;
+  bringToFront: () => void;
+  zoom: Accessor<number>;
+  onMaximizeToggle: () => void;
+};
+
+export default function ReachabilityWindow(props: ReachabilityWindowProps) {
+  // one path per bar class: clusters alternate between two shades so neighbors stay apart,
+  // noise is grey, and images nothing reaches (the start of each run) fill the full height
+  const bars = createMemo(() => {
+    const { ordering, reachability } = props.plot;
+    const finite = reachability.filter(Number.isFinite);
+    const max = Math.max(...finite, 0) || 1;
+    const width = (VIEW_W - 2 * PAD) / Math.max(1, ordering.length);
+    const paths = { even: "", odd: "", noise: "", unreachable: "" };
+    ordering.forEach((image, i) => {
+      const value = reachability[i];
+      const label = props.labels[image] ?? -1;
+      const h = Number.isFinite(value) ? (value / max) * (VIEW_H - 2 * PAD) : VIEW_H - 2 * PAD;
+      const bar = `M${PAD + i * width} ${VIEW_H - PAD}v${-h}h${width}v${h}z`;
+      if (!Number.isFinite(value)) paths.unreachable += bar;
+      else if (label < 0) paths.noise += bar;
+      else paths[label % 2 ? "odd" : "even"] += bar;
+    });
+    return paths;
+  });
+
+  const clusterCount = () => new Set(props.labels.filter((l) => l >= 0)).size;
+
+  return (
+    <WindowBase
+      placement={props.placement}
+      onUpdate={props.onUpdate}
+      bringToFront={props.bringToFront}
+      zoom={props.zoom}
+      title="Reachability"
+      subtitle={`${props.plot.ordering.length} images · ${clusterCount()} clusters`}
+      onClose={props.onClose}
+      bodyClass="dendrogram-window-body"
+      onHeaderDblClick={(e) => {
+        e.stopPropagation();
+        props.onMaximizeToggle();
+      }}
+    >
+      <svg class="reachability-svg" viewBox={`0 0 ${VIEW_W} ${VIEW_H}`} preserveAspectRatio="none">
+        <path class="reachability-bars unreachable" d={bars().unreachable} />
+        <path class="reachability-bars noise" d={bars().noise} />
+        <path class="reachability-bars even" d={bars().even} />
+        <path class="reachability-bars odd" d={bars().odd} />
+      </svg>
+      <div class="report-note">
+        Images in OPTICS order; valleys are clusters, grey bars are noise and full-height bars start a new region.
+      </div>
+    </WindowBase>
+  );
+}
@@ -0,0 +1,76 @@
+import type { Accessor } from "solid-js";
+import { For } from "solid-js";
+import WindowBase from "./WindowBase";
+import type { PanelPlacement, ResolutionReport } from "../types";
+import { analysisEdgeLabel } from "../utils/imageInfo";
+
+export type ResolutionReportWindowProps = {
+  placement: Accessor<PanelPlacement | undefined>;
+  report: ResolutionReport;
+  currentEdge: number;
+  onPickEdge: (edge: number) => void;
+  onClose: () => void;
+  onUpdate: (patch: Partial<PanelPlacement>) => void;
+  bringToFront: () => void;
+  zoom: Accessor<number>;
+  onMaximizeToggle: () => void;
+};
+
+export default function ResolutionReportWindow(props: ResolutionReportWindowProps) {
+  return (
+    <WindowBase
+      placement={props.placement}
+      onUpdate={props.onUpdate}
+      bringToFront={props.bringToFront}
+      zoom={props.zoom}
+      title="Analysis resolution"
+      subtitle={`${props.report.sampleSize} sampled images · ${props.report.method} (${props.report.metric}) on ${props.report.layer}`}
+      onClose={props.onClose}
+      bodyClass="report-window-body"
+      onHeaderDblClick={(e) => {
+        e.stopPropagation();
+        props.onMaximizeToggle();
+      }}
+    >
+      <table class="report-table">
+        <thead>
+          <tr>
+            <th>Edge</th>
+            <th title="Extraction time per image, including decode and downscale">ms / image</th>
+            <th>Clusters</th>
+            <th>Noise</th>
+            <th title="Adjusted Rand Index against the most detailed resolution; 1 = identical grouping">
+              ARI
+            </th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          <For each={props.report.rows}>
+            {(row) => (
+              <tr class={row.edge === props.currentEdge ? "active" : ""}>
+                <td>{analysisEdgeLabel(row.edge)}</td>
+                <td>{row.msPerImage.toFixed(1)}</td>
+                <td>{row.nClusters}</td>
+                <td>{(row.noise * 100).toFixed(0)}%</td>
+                <td>{row.ari.toFixed(3)}</td>
+                <td>
+                  <button
+                    class="ghost-button small"
+                    disabled={row.edge === props.currentEdge}
+                    onClick={() => props.onPickEdge(row.edge)}
+                  >
+                    Use
+                  </button>
+                </td>
+              </tr>
+            )}
+          </For>
+        </tbody>
+      </table>
+      <div class="report-note">
+        A lower edge is a good default when its ARI stays close to 1 while the time per image drops.
+      </div>
+    </WindowBase>
+  );
+}
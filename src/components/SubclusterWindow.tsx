@@ -0,0 +1,148 @@
+import type { Accessor } from "solid-js";
+import { For, Show, createSignal } from "solid-js";
+import WindowBase from "./WindowBase";
+import type { HierKey, PanelPlacement, SubclusterSettings, TaxonomyLayer } from "../types";
+import {
+  EPS_MAX,
+  EPS_MIN,
+  EPS_STEP,
+  KMEANS_MAX,
+  KMEANS_MIN,
+  KMEANS_STEP,
+  MIN_PTS_MAX,
+  MIN_PTS_MIN,
+  MIN_PTS_STEP,
+} from "../appConfig";
+
+export type SubclusterWindowProps = {
+  placement: Accessor<PanelPlacement | undefined>;
+  title: string;
+  size: number;
+  layers: TaxonomyLayer[];
+  // starting values, taken from the main controls
+  defaults: SubclusterSettings;
+  busy: boolean;
+  onRun: (settings: SubclusterSettings) => void;
+  onClose: () => void;
+  onUpdate: (patch: Partial<PanelPlacement>) => void;
+  bringToFront: () => void;
+  zoom: Accessor<number>;
+  onMaximizeToggle: () => void;
+};
+
+export default function SubclusterWindow(props: SubclusterWindowProps) {
+  // the window remounts per cluster, so the defaults are read once
+  const [method, setMethod] = createSignal(props.defaults.method);
+  const [layer, setLayer] = createSignal<HierKey>(props.defaults.layer);
+  const [eps, setEps] = createSignal(props.defaults.eps);
+  const [minPts, setMinPts] = createSignal(props.defaults.minPts);
+  const [k, setK] = createSignal(Math.min(props.defaults.k, Math.max(KMEANS_MIN, props.size - 1)));
+
+  const run = () => props.onRun({ method: method(), layer: layer(), eps: eps(), minPts: minPts(), k: k() });
+
+  return (
+    <WindowBase
+      placement={props.placement}
+      onUpdate={props.onUpdate}
+      bringToFront={props.bringToFront}
+      zoom={props.zoom}
+      title="Sub-cluster"
+      subtitle={`${props.title} · ${props.size} images`}
+      onClose={props.onClose}
+      bodyClass="report-window-body"
+      onHeaderDblClick={(e) => {
+        e.stopPropagation();
+        props.onMaximizeToggle();
+      }}
+    >
+      <div class="pill-row">
+        <div class="toggle-row">
+          <span class="toggle-label">Layer</span>
+          <div class="pill-group">
+            <For each={props.layers}>
+              {(l) => (
+                <button class={`pill ${layer() === l.key ? "active" : ""}`} onClick={() => setLayer(l.key)}>
+                  {l.label}
+                </button>
+              )}
+            </For>
+          </div>
+        </div>
+        <div class="toggle-row">
+          <span class="toggle-label">Method</span>
+          <div class="pill-group">
+            <button class={`pill ${method() === "dbscan" ? "active" : ""}`} onClick={() => setMethod("dbscan")}>
+              DBSCAN
+            </button>
+            <button class={`pill ${method() === "kmeans" ? "active" : ""}`} onClick={() => setMethod("kmeans")}>
+              K-Means
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div class="controls-grid">
+        <Show
+          when={method() === "dbscan"}
+          fallback={
+            <div class="slider-block">
+              <div class="slider-label">
+                <span class="slider-title">k</span>
+                <span class="value">{k()}</span>
+              </div>
+              <input
+                class="slider"
+                type="range"
+                min={KMEANS_MIN}
+                max={Math.min(KMEANS_MAX, Math.max(KMEANS_MIN, props.size - 1))}
+                step={KMEANS_STEP}
+                value={k()}
+                onInput={(e) => setK(parseInt(e.currentTarget.value))}
+              />
+            </div>
+          }
+        >
+          <div class="slider-block">
+            <div class="slider-label">
+              <span class="slider-title">ε (eps)</span>
+              <span class="value">{eps().toFixed(2)}</span>
+            </div>
+            <input
+              class="slider"
+              type="range"
+              min={EPS_MIN}
+              max={EPS_MAX}
+              step={EPS_STEP}
+              value={eps()}
+              onInput={(e) => setEps(parseFloat(e.currentTarget.value))}
+            />
+          </div>
+          <div class="slider-block">
+            <div class="slider-label">
+              <span class="slider-title">Min images</span>
+              <span class="value">{minPts()}</span>
+            </div>
+            <input
+              class="slider"
+              type="range"
+              min={MIN_PTS_MIN}
+              max={MIN_PTS_MAX}
+              step={MIN_PTS_STEP}
+              value={minPts()}
+              onInput={(e) => setMinPts(parseInt(e.currentTarget.value))}
+            />
+          </div>
+        </Show>
+      </div>
+
+      <div class="button-row">
+        <button class="ghost-button" disabled={props.busy || props.size < 2} onClick={run}>
+          {props.busy ? "Sub-clustering…" : "Sub-cluster"}
+        </button>
+      </div>
+      <div class="report-note">
+        Only this cluster's images are clustered; their groups replace it as panels next to where it stood.
+      </div>
+    </WindowBase>
+  );
+}
@@ -0,0 +1,169 @@
+import type { Accessor } from "solid-js";
+import { createEffect, onCleanup } from "solid-js";
+import { Chart, type ChartConfiguration } from "chart.js/auto";
+import WindowBase from "./WindowBase";
+import type { KDistanceCurve, KSweepRow, PanelPlacement, ParamSuggestion } from "../types";
+
+const LINE_COLOR = "#6366f1";
+const SECOND_COLOR = "#0ea5e9";
+const MARK_COLOR = "#f97316";
+const GUIDE_COLOR = "#94a3b8";
+
+export type SuggestWindowProps = {
+  placement: Accessor<PanelPlacement | undefined>;
+  suggestion: ParamSuggestion;
+  eps: number;
+  k: number;
+  onPickEps: (eps: number) => void;
+  onPickK: (k: number) => void;
+  onClose: () => void;
+  onUpdate: (patch: Partial<PanelPlacement>) => void;
+  bringToFront: () => void;
+  zoom: Accessor<number>;
+  onMaximizeToggle: () => void;
+};
+
+// sorted k-distances with the knee marked and the current eps as a dashed guide
+function kDistanceConfig(curve: KDistanceCurve, eps: number): ChartConfiguration<"line"> {
+  return {
+    type: "line",
+    data: {
+      labels: curve.distances.map((_, i) => i + 1),
+      datasets: [
+        {
+          label: `distance to neighbor ${curve.k}`,
+          data: curve.distances,
+          borderColor: LINE_COLOR,
+          borderWidth: 2,
+          pointRadius: curve.distances.map((_, i) => (i === curve.knee ? 6 : 0)),
+          pointBackgroundColor: MARK_COLOR,
+        },
+        {
+          label: "current eps",
+          data: curve.distances.map(() => eps),
+          borderColor: GUIDE_COLOR,
+          borderDash: [4, 4],
+          borderWidth: 1,
+          pointRadius: 0,
+        },
+      ],
+    },
+    options: {
+      scales: {
+        x: { ticks: { display: false }, title: { display: true, text: "images, nearest first" } },
+        y: { beginAtZero: true },
+      },
+    },
+  };
+}
+
+// silhouette on the left axis, inertia on the right; the best silhouette is marked
+function kSweepConfig(rows: KSweepRow[], k: number): ChartConfiguration<"line"> {
+  const best = rows.reduce((b, r, i) => (r.silhouette > rows[b].silhouette ? i : b), 0);
+  return {
+    type: "line",
+    data: {
+      labels: rows.map((r) => r.k),
+      datasets: [
+        {
+          label: "silhouette",
+          yAxisID: "silhouette",
+          data: rows.map((r) => r.silhouette),
+          borderColor: LINE_COLOR,
+          borderWidth: 2,
+          pointRadius: rows.map((r, i) => (i === best ? 6 : r.k === k ? 5 : 3)),
+          pointBackgroundColor: rows.map((_, i) => (i === best ? MARK_COLOR : LINE_COLOR)),
+        },
+        {
+          label: "inertia",
+          yAxisID: "inertia",
+          data: rows.map((r) => r.inertia),
+          borderColor: SECOND_COLOR,
+          borderDash: [4, 3],
+          borderWidth: 2,
+          pointRadius: rows.map((r) => (r.k === k ? 5 : 3)),
+          pointBackgroundColor: SECOND_COLOR,
+        },
+      ],
+    },
+    options: {
+      scales: {
+        x: { title: { display: true, text: "k" } },
+        silhouette: { position: "left", title: { display: true, text: "silhouette" } },
+        inertia: { position: "right", beginAtZero: true, grid: { drawOnChartArea: false } },
+      },
+    },
+  };
+}
+
+export default function SuggestWindow(props: SuggestWindowProps) {
+  let canvasRef: HTMLCanvasElement | undefined;
+  let chart: Chart<"line"> | undefined;
+
+  const pick = (index: number) => {
+    const { kDistance, kSweep } = props.suggestion;
+    if (kDistance) props.onPickEps(kDistance.distances[index]);
+    else if (kSweep) props.onPickK(kSweep[index].k);
+  };
+
+  createEffect(() => {
+    const { kDistance, kSweep } = props.suggestion;
+    const config = kDistance ? kDistanceConfig(kDistance, props.eps) : kSweepConfig(kSweep ?? [], props.k);
+    if (!canvasRef) return;
+    chart?.destroy();
+    chart = new Chart(canvasRef, {
+      ...config,
+      options: {
+        ...config.options,
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        interaction: { mode: "index", intersect: false },
+        plugins: { legend: { labels: { boxWidth: 14, color: "#0f172a" } } },
+        onClick(event, _elements, target) {
+          if (!event.native) return;
+          const [hit] = target.getElementsAtEventForMode(event.native, "index", { intersect: false }, false);
+          if (hit) pick(hit.index);
+        },
+        onHover(event, elements) {
+          const canvas = event.native?.target as HTMLCanvasElement | undefined;
+          if (canvas) canvas.style.cursor = elements.length ? "pointer" : "default";
+        },
+      },
+    });
+  });
+
+  onCleanup(() => chart?.destroy());
+
+  const note = () => {
+    const { kDistance, kSweep } = props.suggestion;
+    if (kDistance) {
+      return `Knee at eps ≈ ${kDistance.distances[kDistance.knee].toFixed(3)}. Click the curve to use a distance as eps.`;
+    }
+    return kSweep?.length
+      ? "Higher silhouette is better; for inertia look for the elbow. Click a k to use it."
+      : "Too few images to compare values of k.";
+  };
+
+  return (
+    <WindowBase
+      placement={props.placement}
+      onUpdate={props.onUpdate}
+      bringToFront={props.bringToFront}
+      zoom={props.zoom}
+      title={props.suggestion.kSweep ? "Choosing k" : "Choosing eps"}
+      subtitle={`${props.suggestion.method} (${props.suggestion.metric}) on ${props.suggestion.layer}`}
+      onClose={props.onClose}
+      bodyClass="dendrogram-window-body"
+      onHeaderDblClick={(e) => {
+        e.stopPropagation();
+        props.onMaximizeToggle();
+      }}
+    >
+      <div class="suggest-chart">
+        <canvas ref={canvasRef} class="pie-window-canvas" />
+      </div>
+      <div class="report-note">{note()}</div>
+    </WindowBase>
+  );
+}
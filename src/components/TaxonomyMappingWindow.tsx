@@ -0,0 +1,191 @@
+import type { Accessor } from "solid-js";
+import { For, Show, createMemo, createSignal } from "solid-js";
+import WindowBase from "./WindowBase";
+import type { HierKey, PanelPlacement, TaxonomyMapping } from "../types";
+import { mappingProblems, rowColor, type TaxonomyTable } from "../workers/taxonomyTable";
+
+const PREVIEW_ROWS = 6;
+
+export type TaxonomyMappingWindowProps = {
+  placement: Accessor<PanelPlacement | undefined>;
+  fileName: string;
+  table: TaxonomyTable;
+  initialMapping: TaxonomyMapping;
+  onApply: (mapping: TaxonomyMapping) => void;
+  onClose: () => void;
+  onUpdate: (patch: Partial<PanelPlacement>) => void;
+  bringToFront: () => void;
+  zoom: Accessor<number>;
+  onMaximizeToggle: () => void;
+};
+
+export default function TaxonomyMappingWindow(props: TaxonomyMappingWindowProps) {
+  const [mapping, setMapping] = createSignal<TaxonomyMapping>(props.initialMapping);
+  const columns = () => props.table.columns;
+  const problems = createMemo(() => mappingProblems(props.table, mapping()));
+  const validRows = createMemo(() => props.table.rows.filter((row) => rowColor(row, mapping())).length);
+
+  const rgbColumns = () => {
+    const { color } = mapping();
+    return color.kind === "rgb" ? color : null;
+  };
+  const hexColumn = () => {
+    const { color } = mapping();
+    return color.kind === "hex" ? color.column : "";
+  };
+
+  const setColorKind = (kind: "rgb" | "hex") => {
+    const first = columns()[0] ?? "";
+    setMapping({
+      ...mapping(),
+      color: kind === "rgb" ? { kind, r: first, g: first, b: first } : { kind, column: first },
+    });
+  };
+
+  const setChannel = (channel: "r" | "g" | "b" | "column", column: string) => {
+    setMapping({ ...mapping(), color: { ...mapping().color, [channel]: column } as TaxonomyMapping["color"] });
+  };
+
+  // layers keep the file's column order, which is expected to run from finest to coarsest
+  const toggleLayer = (column: HierKey, on: boolean) => {
+    const current = mapping();
+    const layers = columns().filter((c) => (c === column ? on : current.layers.includes(c)));
+    const summaryLayer = layers.includes(current.summaryLayer) ? current.summaryLayer : layers[layers.length - 1] ?? "";
+    const chartLayers = current.chartLayers?.filter((c) => layers.includes(c));
+    const neutral = current.neutral && layers.includes(current.neutral.layer) ? current.neutral : undefined;
+    setMapping({ ...current, layers, summaryLayer, chartLayers, neutral });
+  };
+
+  const swatch = (index: number) => {
+    const rgb = rowColor(props.table.rows[index], mapping());
+    return rgb ? `rgb(${rgb.join(",")})` : "transparent";
+  };
+
+  const ColumnSelect = (selectProps: { value: string; onChange: (value: string) => void }) => (
+    <select class="taxonomy-select" value={selectProps.value} onChange={(e) => selectProps.onChange(e.currentTarget.value)}>
+      <For each={columns()}>{(col) => <option value={col}>{col}</option>}</For>
+    </select>
+  );
+
+  return (
+    <WindowBase
+      placement={props.placement}
+      onUpdate={props.onUpdate}
+      bringToFront={props.bringToFront}
+      zoom={props.zoom}
+      title="Import taxonomy"
+      subtitle={`${props.fileName} · ${props.table.rows.length} rows`}
+      onClose={props.onClose}
+      bodyClass="report-window-body taxonomy-window-body"
+      onHeaderDblClick={(e) => {
+        e.stopPropagation();
+        props.onMaximizeToggle();
+      }}
+    >
+      <div class="taxonomy-row">
+        <span class="taxonomy-label">Color</span>
+        <select
+          class="taxonomy-select"
+          value={mapping().color.kind}
+          onChange={(e) => setColorKind(e.currentTarget.value as "rgb" | "hex")}
+        >
+          <option value="rgb">R, G, B columns</option>
+          <option value="hex">Hex column</option>
+        </select>
+        <Show
+          when={rgbColumns()}
+          fallback={<ColumnSelect value={hexColumn()} onChange={(col) => setChannel("column", col)} />}
+        >
+          {(rgb) => (
+            <For each={["r", "g", "b"] as const}>
+              {(channel) => <ColumnSelect value={rgb()[channel]} onChange={(col) => setChannel(channel, col)} />}
+            </For>
+          )}
+        </Show>
+      </div>
+
+      <div class="taxonomy-row">
+        <span class="taxonomy-label">Layers</span>
+        <div class="taxonomy-layers">
+          <For each={columns()}>
+            {(col) => (
+              <label class="taxonomy-check">
+                <input
+                  type="checkbox"
+                  checked={mapping().layers.includes(col)}
+                  onChange={(e) => toggleLayer(col, e.currentTarget.checked)}
+                />
+                {col}
+              </label>
+            )}
+          </For>
+        </div>
+      </div>
+
+      <div class="taxonomy-row">
+        <span class="taxonomy-label" title="Layer shown in the per-cluster pie charts">
+          Summary
+        </span>
+        <select
+          class="taxonomy-select"
+          value={mapping().summaryLayer}
+          disabled={!mapping().layers.length}
+          onChange={(e) => setMapping({ ...mapping(), summaryLayer: e.currentTarget.value })}
+        >
+          <For each={mapping().layers}>{(layer) => <option value={layer}>{layer}</option>}</For>
+        </select>
+      </div>
+
+      <Show when={mapping().neutral}>
+        {(neutral) => (
+          <div class="report-note">
+            Entries with {neutral().layer} = "{neutral().value}" count as neutral and can be excluded from clustering.
+          </div>
+        )}
+      </Show>
+
+      <table class="report-table">
+        <thead>
+          <tr>
+            <th />
+            <For each={mapping().layers}>{(layer) => <th>{layer}</th>}</For>
+          </tr>
+        </thead>
+        <tbody>
+          <For each={props.table.rows.slice(0, PREVIEW_ROWS)}>
+            {(row, i) => (
+              <tr>
+                <td>
+                  <span class="taxonomy-swatch" style={{ background: swatch(i()) }} />
+                </td>
+                <For each={mapping().layers}>{(layer) => <td>{String(row[layer] ?? "")}</td>}</For>
+              </tr>
+            )}
+          </For>
+        </tbody>
+      </table>
+
+      <Show
+        when={problems().length === 0}
+        fallback={
+          <ul class="taxonomy-problems">
+            <For each={problems()}>{(problem) => <li>{problem}</li>}</For>
+          </ul>
+        }
+      >
+        <div class="report-note">
+          {validRows()} of {props.table.rows.length} rows have a readable color; rows without one are skipped.
+        </div>
+      </Show>
+      <div class="button-row">
+        <button
+          class="ghost-button small"
+          disabled={problems().length > 0 || validRows() === 0}
+          onClick={() => props.onApply(mapping())}
+        >
+          Apply
+        </button>
+      </div>
+    </WindowBase>
+  );
+}
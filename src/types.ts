@@ -1,5 +1,24 @@
-export type HierKey = "xkcd_color" | "design_color" | "common_color" | "color_family";
-export type ClusterMethod = "dbscan" | "kmeans";
+// a layer is one name column of the loaded taxonomy (xkcd_color, color_family, ...)
+export type HierKey = string;
+export type ClusterMethod = "dbscan" | "hdbscan" | "optics" | "kmeans" | "agglomerative";
+export type Linkage = "ward" | "average" | "complete";
+// how far apart two name histograms are; EMD moves mass between taxonomy colors
+export type DistanceMetric = "hellinger" | "jensen-shannon" | "chi-squared" | "emd";
+// what an image is clustered by: its overall name histogram, or the histogram per grid cell
+export type Embedding = "histogram" | "layout";
+// color space used to match palette colors to taxonomy names
+export type MatchSpace = "rgb" | "lab" | "ciede2000";
+// algorithm that reduces an image to its dominant colors
+export type ExtractorKind = "colorgram" | "median-cut" | "kmeans-lab";
+// preprocessing applied to the pixels before a palette is extracted
+export type PixelFilter = {
+  // weight pixels by alpha, so fully transparent ones don't count
+  ignoreTransparent: boolean;
+  // drop a uniform backdrop connected to the image border
+  dropBorder: boolean;
+  // favor the center over the edges
+  centerWeight: boolean;
+};
 
 export type PanelPlacement = {
   id: string;
@@ -14,5 +33,166 @@ export type ClusterColorPart = { name: string; pct: number; color: string };
 
 export type ClusterDistribution = { id: number; parts: ClusterColorPart[] };
 
+// A cluster as the UI shows it: the run's label ("2", "-1" for ungrouped), with a
+// sub-cluster's label appended to its parent's id ("2.0", "2.-1").
+export type ClusterId = string;
+
 export type PanelPlacementMap = Record<string, PanelPlacement>;
-export type ClusterDistributionMap = Record<string, ClusterColorPart[]>;
+export type ClusterDistributionMap = Record<ClusterId, ClusterColorPart[]>;
+
+export type SourceFile = { path: string; file: File };
+
+export type ImageRecord = {
+  path: string;
+  name: string;
+  url: string;
+  width: number;
+  height: number;
+  bytes: number;
+  takenAt?: string;
+  cameraMake?: string;
+  cameraModel?: string;
+};
+
+export type ResolutionRow = {
+  edge: number;
+  msPerImage: number;
+  nClusters: number;
+  noise: number;
+  ari: number;
+};
+
+export type ClusterScore = { label: number; size: number; silhouette: number };
+
+// how well a partition separates the images; noise is left out of every score
+export type ClusterQuality = {
+  // -1..1, higher is better
+  silhouette: number;
+  // 0 is best; null with fewer than two clusters
+  daviesBouldin: number | null;
+  // higher is better; null with fewer than two clusters
+  calinskiHarabasz: number | null;
+  noiseRatio: number;
+  clusters: ClusterScore[];
+};
+
+export type ResolutionReport = {
+  // the layer clustered, or a label for the weighted mix
+  layer: HierKey;
+  method: ClusterMethod;
+  metric: DistanceMetric;
+  sampleSize: number;
+  rows: ResolutionRow[];
+};
+
+// distances to each image's k-th nearest neighbor, ascending; `knee` indexes the bend
+export type KDistanceCurve = { k: number; distances: number[]; knee: number };
+
+export type KSweepRow = { k: number; silhouette: number; inertia: number };
+
+// DBSCAN gets a k-distance curve for eps; k-means and agglomerative a sweep over k
+export type ParamSuggestion = {
+  // the layer clustered, or a label for the weighted mix
+  layer: HierKey;
+  method: ClusterMethod;
+  metric: DistanceMetric;
+  kDistance?: KDistanceCurve;
+  kSweep?: KSweepRow[];
+};
+
+export type WorkerErrorStage =
+  | "init"
+  | "load"
+  | "extract"
+  | "taxonomy"
+  | "compare"
+  | "suggest"
+  | "cache"
+  | "cluster"
+  | "worker";
+
+export type WorkerError = { stage: WorkerErrorStage; message: string; recoverable: boolean };
+
+export type ClusterRequest = {
+  layer: HierKey;
+  embedding: Embedding;
+  method: ClusterMethod;
+  eps: number;
+  // DBSCAN's min points; min samples (core distance neighbors) for HDBSCAN and OPTICS
+  minPts: number;
+  // smallest group HDBSCAN and OPTICS report as a cluster
+  minClusterSize: number;
+  // clusters for k-means, and where the agglomerative tree is cut
+  k: number;
+  linkage: Linkage;
+  // distance for DBSCAN, HDBSCAN, OPTICS and average/complete linkage
+  metric: DistanceMetric;
+  // k-means: null draws a fresh seed, which the result reports
+  seed: number | null;
+  // k-means runs from different seeds; the lowest-inertia one is kept
+  restarts: number;
+  maxIter: number;
+  // mixed mode: a weight per layer, every weighted layer feeding one embedding; null
+  // clusters on `layer` alone
+  layerWeights: Record<HierKey, number> | null;
+  // cluster only these images, to drill into one cluster; null clusters them all
+  indices: number[] | null;
+};
+
+// a drill-down's own settings; everything else follows the main controls
+export type SubclusterSettings = Pick<ClusterRequest, "layer" | "eps" | "minPts" | "k"> & {
+  method: Extract<ClusterMethod, "dbscan" | "kmeans">;
+};
+
+export type DendrogramMerge = {
+  // node ids: below n an image index, n + i the cluster formed by merge i
+  a: number;
+  b: number;
+  height: number;
+  // images under the new node
+  size: number;
+};
+
+// OPTICS visit order and each visited image's reachability distance (Infinity for the first
+// image of every connected region)
+export type Reachability = { ordering: number[]; reachability: number[] };
+
+// agglomerative result, merges sorted by height
+export type Dendrogram = { n: number; linkage: Linkage; merges: DendrogramMerge[] };
+
+export type TaxonomyFormat = "json" | "csv";
+
+export type TaxonomyMapping = {
+  color: { kind: "rgb"; r: string; g: string; b: string } | { kind: "hex"; column: string };
+  // name columns used as layers, finest first
+  layers: HierKey[];
+  // layer summarized in the per-cluster pie charts
+  summaryLayer: HierKey;
+  // further layers the pie charts can switch to
+  chartLayers?: HierKey[];
+  // entries whose `layer` name equals `value` count as neutral (greys, beiges, ...)
+  neutral?: { layer: HierKey; value: string };
+  // display names; layers without one show their column name
+  labels?: Record<HierKey, string>;
+};
+
+export type TaxonomyFile = {
+  name: string;
+  text: string;
+  format: TaxonomyFormat;
+  mapping: TaxonomyMapping;
+};
+
+export type TaxonomyLayer = { key: HierKey; label: string };
+
+export type TaxonomyInfo = {
+  name: string;
+  builtin: boolean;
+  layers: TaxonomyLayer[];
+  summaryLayer: HierKey;
+  // summaryLayer first, then the extra chart layers
+  chartLayers: HierKey[];
+  // whether neutral palette mass can be excluded
+  hasNeutral: boolean;
+  entries: number;
+};
@@ -8,19 +8,3 @@ declare module "js-untar" {
 
   export default function untar(buffer: ArrayBuffer): Promise<UntarFile[]>;
 }
-
-declare module "density-clustering" {
-  export type DistanceFn = (a: number[], b: number[]) => number;
-
-  export class DBSCAN {
-    run(data: number[][], eps: number, minPts: number, distance?: DistanceFn): number[][];
-    noise: number[];
-    clusters: number[][];
-  }
-
-  export class KMEANS {
-    run(data: number[][], k: number, epsilon?: number): number[][];
-    clusters: number[][];
-    centroids: number[][];
-  }
-}
@@ -0,0 +1,51 @@
+import type { ClusterId } from "../types";
+
+const SEPARATOR = ".";
+
+const pathOf = (id: ClusterId) => id.split(SEPARATOR).map(Number);
+
+// "Group 3", "Group 3 › 2" for a sub-cluster, "Ungrouped", "Group 3 › ungrouped"
+export const groupTitle = (id: ClusterId) =>
+  pathOf(id)
+    .map((label, depth) => {
+      if (label < 0) return depth ? "ungrouped" : "Ungrouped";
+      return depth ? String(label + 1) : `Group ${label + 1}`;
+    })
+    .join(" › ");
+
+export const childId = (parent: ClusterId, label: number): ClusterId => `${parent}${SEPARATOR}${label}`;
+
+// ungrouped images, at the top level or left over inside a sub-clustered parent
+export const isUngrouped = (id: ClusterId) => pathOf(id).at(-1)! < 0;
+
+// label of the top-level cluster an id descends from
+export const topLabel = (id: ClusterId) => pathOf(id)[0];
+
+// parents before their children, siblings by label, ungrouped after every group
+export function compareIds(a: ClusterId, b: ClusterId) {
+  const pa = pathOf(a);
+  const pb = pathOf(b);
+  for (let i = 0; i < Math.min(pa.length, pb.length); i++) {
+    if (pa[i] === pb[i]) continue;
+    if (pa[i] < 0) return 1;
+    if (pb[i] < 0) return -1;
+    return pa[i] - pb[i];
+  }
+  return pa.length - pb.length;
+}
+
+// Flat labels for the worker, which summarizes and scores plain partitions: the top-level
+// ungrouped stay -1, every other id gets a label of its own; `ids` maps labels back.
+export function denseLabels(assigned: ClusterId[]) {
+  const ids: ClusterId[] = [];
+  const index = new Map<ClusterId, number>();
+  const labels = assigned.map((id) => {
+    if (id === "-1") return -1;
+    if (!index.has(id)) {
+      index.set(id, ids.length);
+      ids.push(id);
+    }
+    return index.get(id)!;
+  });
+  return { labels, ids };
+}
@@ -0,0 +1,39 @@
+import type { ClusterId, ImageRecord } from "../types";
+import { groupTitle } from "./clusterIds";
+import { cameraLabel } from "./imageInfo";
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function buildClusterCsv(records: ImageRecord[], labels: ClusterId[]) {
+  const header = ["path", "name", "group", "label", "width", "height", "bytes", "taken_at", "camera"];
+  const rows = labels.map((label, i) => {
+    const rec = records[i];
+    return [
+      rec?.path,
+      rec?.name,
+      groupTitle(label),
+      label,
+      rec?.width,
+      rec?.height,
+      rec?.bytes,
+      rec?.takenAt,
+      rec ? cameraLabel(rec) : undefined,
+    ]
+      .map(csvCell)
+      .join(",");
+  });
+  return [header.join(","), ...rows].join("\n");
+}
+
+export function downloadText(filename: string, text: string, type = "text/csv") {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // give the browser a tick to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,53 @@
+import type { SourceFile } from "../types";
+
+const SUPPORTED_PATTERN = /\.(jpe?g|png|webp|tar|tar\.gz|tgz)$/i;
+
+export const SOURCE_ACCEPT = "image/jpeg,image/png,image/webp,.tar,.tar.gz,.tgz";
+
+export const isSupportedSource = (name: string) => SUPPORTED_PATTERN.test(name);
+
+export const filesFromList = (list: FileList | null): SourceFile[] => {
+  if (!list) return [];
+  return Array.from(list)
+    .map((file) => ({ path: file.webkitRelativePath || file.name, file }))
+    .filter((entry) => isSupportedSource(entry.path));
+};
+
+const readEntryBatch = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const fileFromEntry = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+async function walkEntry(entry: FileSystemEntry, out: SourceFile[]) {
+  if (entry.isFile) {
+    const path = entry.fullPath.replace(/^\//, "");
+    if (!isSupportedSource(path)) return;
+    out.push({ path, file: await fileFromEntry(entry as FileSystemFileEntry) });
+    return;
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries hands back directory contents in batches until it returns an empty one
+    for (;;) {
+      const batch = await readEntryBatch(reader);
+      if (!batch.length) break;
+      for (const child of batch) await walkEntry(child, out);
+    }
+  }
+}
+
+export async function filesFromDrop(dt: DataTransfer): Promise<SourceFile[]> {
+  // grab entries synchronously; the DataTransfer is emptied once the drop handler yields
+  const entries = Array.from(dt.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry());
+
+  if (!entries.some(Boolean)) return filesFromList(dt.files);
+
+  const out: SourceFile[] = [];
+  for (const entry of entries) {
+    if (entry) await walkEntry(entry, out);
+  }
+  return out;
+}
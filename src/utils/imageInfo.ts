@@ -0,0 +1,27 @@
+import type { ImageRecord } from "../types";
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const cameraLabel = (rec: ImageRecord) => {
+  const make = rec.cameraMake ?? "";
+  const model = rec.cameraModel ?? "";
+  // many models already repeat the maker ("Canon EOS R6"), so avoid "Canon Canon EOS R6"
+  if (make && model.toLowerCase().startsWith(make.toLowerCase())) return model;
+  return [make, model].filter(Boolean).join(" ");
+};
+
+export const describeImage = (rec: ImageRecord) =>
+  [
+    `${rec.width}×${rec.height}`,
+    formatBytes(rec.bytes),
+    rec.takenAt?.replace("T", " "),
+    cameraLabel(rec),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+export const analysisEdgeLabel = (edge: number) => (edge > 0 ? `${edge}px` : "full");
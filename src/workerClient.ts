@@ -0,0 +1,150 @@
+import type {
+  ClusterRequest,
+  ImageRecord,
+  SourceFile,
+  TaxonomyFile,
+  TaxonomyInfo,
+  WorkerErrorStage,
+} from "./types";
+import {
+  PROTOCOL_VERSION,
+  REQUEST_STAGES,
+  type InitParams,
+  type RequestParams,
+  type RequestResult,
+  type RequestType,
+  type WorkerProgress,
+  type WorkerRequest,
+  type WorkerResponse,
+  type WorkerState,
+} from "./workers/protocol";
+
+// The worker reported a failure (or the request could not be sent at all).
+export class WorkerRequestError extends Error {
+  readonly stage: WorkerErrorStage;
+  readonly recoverable: boolean;
+  // undefined when the request never reached the worker
+  readonly state?: WorkerState;
+
+  constructor(stage: WorkerErrorStage, message: string, recoverable: boolean, state?: WorkerState) {
+    super(message);
+    this.name = "WorkerRequestError";
+    this.stage = stage;
+    this.recoverable = recoverable;
+    this.state = state;
+  }
+}
+
+// The request was cancelled, or replaced by a newer one of the same kind (`superseded`).
+export class WorkerCancelledError extends Error {
+  readonly superseded: boolean;
+  readonly state: WorkerState;
+
+  constructor(superseded: boolean, state: WorkerState) {
+    super(superseded ? "request superseded" : "request cancelled");
+    this.name = "WorkerCancelledError";
+    this.superseded = superseded;
+    this.state = state;
+  }
+}
+
+export type RequestOptions = {
+  // aborting sends CANCEL for this request; the promise then rejects with WorkerCancelledError
+  signal?: AbortSignal;
+  onProgress?: (progress: WorkerProgress) => void;
+  onImages?: (images: ImageRecord[]) => void;
+  onTaxonomy?: (taxonomy: TaxonomyInfo) => void;
+};
+
+type ClientOptions = {
+  // uncaught exceptions inside the worker; they are not tied to a request
+  onError?: (message: string) => void;
+};
+
+type Pending = {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  opts: RequestOptions;
+  detach: () => void;
+};
+
+export function createWorkerClient(worker: Worker, clientOpts: ClientOptions = {}) {
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+
+  worker.onmessage = (evt: MessageEvent<WorkerResponse>) => {
+    const msg = evt.data;
+    const entry = pending.get(msg.id);
+    if (!entry) return;
+    if (msg.v !== PROTOCOL_VERSION) {
+      pending.delete(msg.id);
+      entry.detach();
+      entry.reject(
+        new WorkerRequestError("worker", `Protocol version mismatch (got ${msg.v}, expected ${PROTOCOL_VERSION})`, false)
+      );
+      return;
+    }
+
+    if (msg.kind === "event") {
+      const { event } = msg;
+      if (event.type === "PROGRESS") entry.opts.onProgress?.(event);
+      else if (event.type === "IMAGES") entry.opts.onImages?.(event.images);
+      else entry.opts.onTaxonomy?.(event.taxonomy);
+      return;
+    }
+
+    pending.delete(msg.id);
+    entry.detach();
+    if (msg.kind === "result") entry.resolve(msg.result);
+    else if (msg.kind === "error") {
+      const { stage, message, recoverable, state } = msg.error;
+      entry.reject(new WorkerRequestError(stage, message, recoverable, state));
+    } else entry.reject(new WorkerCancelledError(msg.superseded, msg.state));
+  };
+
+  worker.onerror = (evt: ErrorEvent) => {
+    evt.preventDefault();
+    clientOpts.onError?.(evt.message || "unexpected worker error");
+  };
+
+  const request = <K extends RequestType>(type: K, params: RequestParams<K>, opts: RequestOptions = {}) =>
+    new Promise<RequestResult<K>>((resolve, reject) => {
+      const id = nextId++;
+      const onAbort = () => void request("CANCEL", { requestId: id });
+      const detach = () => opts.signal?.removeEventListener("abort", onAbort);
+      try {
+        worker.postMessage({ v: PROTOCOL_VERSION, id, type, params } as WorkerRequest);
+      } catch (error) {
+        // e.g. a payload that can't be structured-cloned
+        const message = error instanceof Error ? error.message : String(error);
+        reject(new WorkerRequestError(REQUEST_STAGES[type], message, false));
+        return;
+      }
+      pending.set(id, { resolve: resolve as (result: unknown) => void, reject, opts, detach });
+      if (opts.signal?.aborted) onAbort();
+      else opts.signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+  const terminate = () => {
+    worker.terminate();
+    // nobody is left to react to these; drop them without settling
+    pending.forEach((entry) => entry.detach());
+    pending.clear();
+  };
+
+  return {
+    init: (params: InitParams, opts?: RequestOptions) => request("INIT", params, opts),
+    loadFiles: (files: SourceFile[], opts?: RequestOptions) => request("LOAD_FILES", { files }, opts),
+    loadTaxonomy: (file: TaxonomyFile | undefined, opts?: RequestOptions) =>
+      request("LOAD_TAXONOMY", { file }, opts),
+    reextract: (params: RequestParams<"REEXTRACT">, opts?: RequestOptions) => request("REEXTRACT", params, opts),
+    compareResolutions: (params: RequestParams<"COMPARE_RESOLUTIONS">, opts?: RequestOptions) =>
+      request("COMPARE_RESOLUTIONS", params, opts),
+    suggestParams: (params: RequestParams<"SUGGEST_PARAMS">, opts?: RequestOptions) =>
+      request("SUGGEST_PARAMS", params, opts),
+    clearCache: () => request("CLEAR_CACHE", {}),
+    cluster: (params: ClusterRequest, opts?: RequestOptions) => request("RUN_CLUSTER", params, opts),
+    summarize: (labels: number[], opts?: RequestOptions) => request("SUMMARIZE", { labels }, opts),
+    terminate,
+  };
+}
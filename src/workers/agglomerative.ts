@@ -0,0 +1,130 @@
+import type { Dendrogram, DendrogramMerge, Linkage } from "../types";
+import type { Tick } from "./cancel";
+import { pairIndex, type DistanceMatrix } from "./metrics";
+
+function createUnionFind(size: number) {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number) => {
+    let root = i;
+    while (parent[root] !== root) root = parent[root];
+    while (parent[i] !== root) [parent[i], i] = [root, parent[i]];
+    return root;
+  };
+  return { parent, find };
+}
+
+// Lance–Williams update: distance from cluster k to the union of i and j
+function mergedDistance(
+  linkage: Linkage,
+  dki: number,
+  dkj: number,
+  dij: number,
+  ni: number,
+  nj: number,
+  nk: number
+) {
+  if (linkage === "complete") return Math.max(dki, dkj);
+  if (linkage === "average") return (ni * dki + nj * dkj) / (ni + nj);
+  // ward, on squared Euclidean distances
+  return ((ni + nk) * dki + (nj + nk) * dkj - nk * dij) / (ni + nj + nk);
+}
+
+// Agglomerative clustering by the nearest-neighbor chain algorithm: O(n²) time on a
+// condensed distance matrix, exact for Ward, average and complete linkage since all
+// three are reducible. Ward assumes the distances are Euclidean. Merges come back sorted
+// by height in the SciPy linkage layout: ids below n are images, n + i is the cluster
+// formed by merge i.
+export async function agglomerate(distances: DistanceMatrix, linkage: Linkage, tick: Tick): Promise<Dendrogram> {
+  const { n } = distances;
+  // updated in place as clusters merge
+  const dist = linkage === "ward" ? distances.values.map((d) => d * d) : distances.values.slice();
+  const at = (i: number, j: number) => (i < j ? dist[pairIndex(n, i, j)] : dist[pairIndex(n, j, i)]);
+  const set = (i: number, j: number, v: number) => {
+    if (i < j) dist[pairIndex(n, i, j)] = v;
+    else dist[pairIndex(n, j, i)] = v;
+  };
+
+  // each active cluster is represented by one of its images
+  const size = new Array<number>(n).fill(1);
+  const active = new Uint8Array(n).fill(1);
+  const raw: { a: number; b: number; value: number }[] = [];
+  const chain: number[] = [];
+
+  while (raw.length < n - 1) {
+    if (!chain.length) chain.push(active.indexOf(1));
+    const x = chain[chain.length - 1];
+    const prev = chain.length > 1 ? chain[chain.length - 2] : -1;
+    // nearest active neighbor of x, preferring the previous chain link on ties so the chain ends
+    let y = prev;
+    let best = prev >= 0 ? at(x, prev) : Infinity;
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === x) continue;
+      const d = at(x, k);
+      if (d < best) {
+        best = d;
+        y = k;
+      }
+    }
+    if (y !== prev) {
+      chain.push(y);
+      continue;
+    }
+
+    chain.pop();
+    chain.pop();
+    await tick();
+    raw.push({ a: x, b: y, value: best });
+    // y is folded into x
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === x || k === y) continue;
+      set(x, k, mergedDistance(linkage, at(x, k), at(y, k), best, size[x], size[y], size[k]));
+    }
+    active[y] = 0;
+    size[x] += size[y];
+  }
+
+  // reducible linkages never produce inversions, so sorting by height gives a valid
+  // merge order; union-find then maps representatives to SciPy-style node ids
+  raw.sort((p, q) => p.value - q.value);
+  const { parent, find } = createUnionFind(n);
+  const nodeOf = Array.from({ length: n }, (_, i) => i);
+  const count = new Array<number>(n).fill(1);
+  const merges: DendrogramMerge[] = raw.map(({ a, b, value }, i) => {
+    const ra = find(a);
+    const rb = find(b);
+    const merge = {
+      a: Math.min(nodeOf[ra], nodeOf[rb]),
+      b: Math.max(nodeOf[ra], nodeOf[rb]),
+      height: linkage === "ward" ? Math.sqrt(Math.max(0, value)) : value,
+      size: count[ra] + count[rb],
+    };
+    parent[rb] = ra;
+    nodeOf[ra] = n + i;
+    count[ra] = merge.size;
+    return merge;
+  });
+  return { n, linkage, merges };
+}
+
+// Flat labels for `k` clusters: apply all but the last k - 1 merges. Cheap enough to run
+// on every drag of the dendrogram's cut line.
+export function cutDendrogram(tree: Dendrogram, k: number) {
+  const { n, merges } = tree;
+  const keep = Math.max(0, Math.min(merges.length, n - Math.max(1, k)));
+  const { parent, find } = createUnionFind(n + keep);
+  for (let i = 0; i < keep; i++) {
+    parent[find(merges[i].a)] = n + i;
+    parent[find(merges[i].b)] = n + i;
+  }
+  const remap = new Map<number, number>();
+  return Array.from({ length: n }, (_, i) => {
+    const root = find(i);
+    if (!remap.has(root)) remap.set(root, remap.size);
+    return remap.get(root)!;
+  });
+}
+
+// number of clusters left when the tree is cut at `height`
+export function clustersAtHeight(tree: Dendrogram, height: number) {
+  return tree.n - tree.merges.filter((m) => m.height <= height).length;
+}
@@ -0,0 +1,17 @@
+// Cooperative cancellation for long worker loops. Work runs inside the worker's
+// message handler, so a CANCEL message is only seen if the loop yields now and then.
+
+const YIELD_INTERVAL_MS = 40;
+
+export type Tick = () => Promise<void>;
+
+export function createTick(signal: AbortSignal, intervalMs = YIELD_INTERVAL_MS): Tick {
+  let last = performance.now();
+  return async () => {
+    if (performance.now() - last >= intervalMs) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      last = performance.now();
+    }
+    signal.throwIfAborted();
+  };
+}
@@ -3,236 +3,230 @@
 import "./untarShim";
 import pako from "pako";
 import untar, { type UntarFile } from "js-untar";
-import { Channels, extract } from "colorgram";
-import { DBSCAN, KMEANS } from "density-clustering";
+import { workerLogger } from "./log";
+import { createTick, type Tick } from "./cancel";
+import { LAYOUT_CELLS, extractPalette, type ExtractOptions, type PaletteColor } from "./palette";
+import { pixelFilterCode } from "./preprocess";
+import {
+  adjustedRandIndex,
+  hellingerEmbed,
+  metricFor,
+  runClustering,
+  type ClusterParams,
+} from "./clustering";
+import { groundDistance, pairwiseDistances, type DistanceMatrix, type GroundDistance } from "./metrics";
+import { clusterQuality } from "./quality";
+import { randomSeed } from "./random";
+import { kDistanceCurve, sweepK } from "./suggest";
+import { createExtractPool, resolvePoolSize, type ExtractPool } from "./extractPool";
+import { rgbToLab, type Lab } from "./colorSpace";
+import {
+  mappingProblems,
+  parseTaxonomyTable,
+  rowColor,
+  type TaxonomyTable,
+} from "./taxonomyTable";
+import { benchmarkTaxonomyIndex, createTaxonomyIndex, type TaxonomyIndex } from "./taxonomyIndex";
+import { EXIF_SCAN_BYTES, readExif, type ExifFields } from "./imageMeta";
+import type {
+  ClusterDistribution,
+  Embedding,
+  HierKey,
+  ImageRecord,
+  MatchSpace,
+  ParamSuggestion,
+  ResolutionRow,
+  SourceFile,
+  TaxonomyFile,
+  TaxonomyMapping,
+} from "../types";
+import {
+  PROTOCOL_VERSION,
+  requestGroup,
+  REQUEST_STAGES,
+  type RequestGroup,
+  type RequestParams,
+  type RequestResult,
+  type RequestType,
+  type WorkerEvent,
+  type WorkerRequest,
+  type WorkerResponse,
+  type WorkerState,
+} from "./protocol";
+import {
+  clearCached,
+  hashBytes,
+  readCached,
+  writeCached,
+  type CachedDistribution,
+} from "./distCache";
 
 type TaxEntry = {
   rgb: [number, number, number];
-  xkcd_color: string;
-  design_color: string;
-  common_color: string;
-  color_family: string;
+  lab: Lab;
+  // name per layer key
+  names: Record<HierKey, string>;
+  neutral: boolean;
 };
 
-type RawTaxEntry = {
-  xkcd_color: string;
-  xkcd_r: number;
-  xkcd_g: number;
-  xkcd_b: number;
-  design_color: string;
-  common_color: string;
-  color_family: string;
-};
-
-type HierKey = "xkcd_color" | "design_color" | "common_color" | "color_family";
+type ImageSource = { path: string; blob: Blob };
 
-type PaletteColor = {
-  rgb: [number, number, number];
-  proportion: number;
-};
-
-type ColorgramStat = [number, number, number, number];
-
-type WorkerMsg =
-  | { type: "INIT"; kColors?: number; baseUrl?: string }
-  | {
-      type: "RUN_CLUSTER";
-      layer: HierKey;
-      method?: "dbscan" | "kmeans";
-      eps: number;
-      minPts: number;
-      k?: number;
-      runId?: number;
-    };
-
-type WorkerOut =
-  | { type: "PROGRESS"; phase: string; done: number; total: number }
-  | { type: "READY"; nImages: number; imageUrls?: string[] }
-  | {
-      type: "CLUSTERS";
-      labels: number[];
-      layer: HierKey;
-      runId?: number;
-      colorFamilyDist?: ClusterDistribution[];
-    };
-
-type ClusterDistribution = {
-  id: number;
-  parts: { name: string; pct: number; color: string }[];
+// per-request context: cancellation checks plus a channel back to the requester
+type Job = {
+  tick: Tick;
+  progress: (phase: string, done: number, total: number) => void;
+  emit: (event: WorkerEvent) => void;
 };
 
 let images: ImageBitmap[] = [];
-let imageUrls: string[] = [];
+let imageRecords: ImageRecord[] = [];
+// SHA-256 of each image's bytes, parallel to `images`; keys the persistent cache
+let imageHashes: string[] = [];
 let tax: TaxEntry[] = [];
+let taxIndex: TaxonomyIndex | null = null;
 let ordMaps: Record<HierKey, Map<string, number>> | null = null;
 let ordLists: Record<HierKey, string[]> | null = null;
 let distsCache: Record<HierKey, Float32Array[]> | null = null;
-let colorFamilyPalette: string[] | null = null;
+// mean taxonomy color per name, for each chart layer
+let chartPalettes: Record<HierKey, string[]> | null = null;
+// EMD ground distances per layer, built on first use
+let groundDistances: Record<HierKey, GroundDistance> = {};
+// what the last clustering measured, so a re-cut of its tree can be scored without
+// computing the distances again; tied to the distributions it was built from. `sample` is
+// set when the distances only cover some images.
+let scoring: {
+  dists: Record<HierKey, Float32Array[]>;
+  distances: DistanceMatrix;
+  sample: number[] | null;
+  data: number[][];
+} | null = null;
+// name columns of the loaded taxonomy; the layers every distribution is built on
+let layers: HierKey[] = [];
+let summaryLayer: HierKey = "";
+let chartLayers: HierKey[] = [];
+let hasNeutral = false;
+// drop palette mass matched to neutral entries and renormalize the rest
+let excludeNeutral = false;
+let taxonomyVersion = "";
 let basePath = "/";
-
-const LAYERS: readonly HierKey[] = [
-  "xkcd_color",
-  "design_color",
-  "common_color",
-  "color_family",
-];
-const WORKER_TAG = "[clusterWorker]";
-
-const logInfo = (message: string, data?: unknown) => {
-  if (data !== undefined) {
-    console.info(`${WORKER_TAG} ${message}`, data);
-  } else {
-    console.info(`${WORKER_TAG} ${message}`);
-  }
+let extractSettings: ExtractOptions = {
+  kColors: 6,
+  maxEdge: 512,
+  extractor: "colorgram",
+  pixelFilter: { ignoreTransparent: true, dropBorder: false, centerWeight: false },
 };
-
-const logError = (message: string, error: unknown) => {
-  console.error(`${WORKER_TAG} ${message}`, error);
+let matchSpace: MatchSpace = "rgb";
+// palettes of the current image set under `paletteSettings`, so changing only the
+// match space re-names colors without extracting again
+let palettes: (PaletteColor[] | undefined)[] = [];
+let paletteSettings = "";
+let pool: ExtractPool | null = null;
+// bumped whenever `images` is replaced or a new extraction starts so older runs bail out
+let extractGeneration = 0;
+// in-flight requests by id, so CANCEL can reach them
+const running = new Map<number, AbortController>();
+// newest request per group; starting another one supersedes (and aborts) it
+const latest: Partial<Record<RequestGroup, AbortController>> = {};
+const SUPERSEDED = "superseded";
+
+const BUILTIN_TAXONOMY: TaxonomyMapping = {
+  color: { kind: "rgb", r: "xkcd_r", g: "xkcd_g", b: "xkcd_b" },
+  layers: ["xkcd_color", "design_color", "common_color", "color_family", "color_type", "color_or_neutral"],
+  summaryLayer: "color_family",
+  chartLayers: ["color_type", "color_or_neutral"],
+  neutral: { layer: "color_or_neutral", value: "neutral" },
+  labels: {
+    xkcd_color: "xkcd",
+    design_color: "design",
+    common_color: "common",
+    color_family: "family",
+    color_type: "type",
+    color_or_neutral: "color/neutral",
+  },
+};
+const CACHE_WRITE_BATCH = 64;
+const EXTRACT_POOL_MAX = 8;
+const RESOLUTION_SAMPLE_MAX = 150;
+// images whose silhouette is scored when the clustering kept no pairwise distances
+const QUALITY_SAMPLE_MAX = 1000;
+// random colors matched by both the index and a linear scan after the taxonomy loads
+const TAXONOMY_BENCH_QUERIES = 256;
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
 };
 
-function fail(stage: string, error: unknown): never {
+const { logInfo, logError } = workerLogger("[clusterWorker]");
+
+function respond(response: WorkerResponse) {
+  (self as any).postMessage(response);
+}
+
+function currentState(): WorkerState {
+  return { hasImages: images.length > 0, hasDistributions: distsCache !== null };
+}
+
+// Problems with what the user handed us (no images in a drop, ...). Retrying the
+// same request cannot succeed, so these are reported as unrecoverable.
+class InputError extends Error {}
+
+// The work was overtaken by a newer image set or extraction; reported as cancelled.
+class SupersededError extends Error {}
+
+function fail(id: number, type: RequestType, error: unknown) {
   const err = error instanceof Error ? error : new Error(String(error));
+  const stage = REQUEST_STAGES[type];
   logError(`${stage} failed`, err);
-  (self as any).postMessage({
-    type: "PROGRESS",
-    phase: `${stage} failed: ${err.message}`,
-    done: 0,
-    total: 1,
-  } satisfies WorkerOut);
-  throw err;
+  respond({
+    v: PROTOCOL_VERSION,
+    id,
+    kind: "error",
+    error: {
+      stage,
+      message: err.message,
+      recoverable: !(err instanceof InputError),
+      state: currentState(),
+    },
+  });
 }
 
 // -------------------- helpers --------------------
 
 function nearestTaxonomy(rgb: [number, number, number]) {
-  if (!tax.length) throw new Error("taxonomy not loaded");
+  if (!tax.length || !taxIndex) throw new Error("taxonomy not loaded");
   if (!rgb) throw new Error("palette color missing rgb");
   if (!Array.isArray(rgb) || rgb.length < 3)
     throw new Error("palette color rgb malformed");
   if (rgb.some((v) => typeof v !== "number" || Number.isNaN(v)))
     throw new Error("palette color rgb non-numeric");
-  // brute NN in RGB space (same spirit as your notebook)
-  let best: TaxEntry | null = null;
-  let bestD = Infinity;
-  for (const e of tax) {
-    const d =
-      (rgb[0] - e.rgb[0]) ** 2 +
-      (rgb[1] - e.rgb[1]) ** 2 +
-      (rgb[2] - e.rgb[2]) ** 2;
-    if (d < bestD) {
-      bestD = d;
-      best = e;
-    }
-  }
-  return best!;
-}
-
-async function bitmapToImageData(bmp: ImageBitmap) {
-  const canvas = new OffscreenCanvas(bmp.width, bmp.height);
-  const ctx = canvas.getContext("2d")!;
-  ctx.drawImage(bmp, 0, 0);
-  return ctx.getImageData(0, 0, bmp.width, bmp.height);
-}
-
-async function extractPalette(
-  bmp: ImageBitmap,
-  kColors: number
-): Promise<PaletteColor[]> {
-  const id = await bitmapToImageData(bmp);
-  const pixelData = new Uint8Array(
-    id.data.buffer,
-    id.data.byteOffset,
-    id.data.byteLength
-  );
-
-  // The library works on raw pixel buffers and returns palette entries shaped like [r, g, b, proportion].
-  const stats = extract(
-    { data: pixelData, channels: Channels.RGBAlpha },
-    kColors
-  ) as ColorgramStat[];
-
-  const palette: PaletteColor[] = [];
-  for (const entry of stats) {
-    const [r, g, b, p] = entry ?? [];
-    if ([r, g, b].some((v) => typeof v !== "number" || Number.isNaN(v))) {
-      logError("dropping invalid palette entry", entry);
-      continue;
-    }
-    palette.push({
-      rgb: [r ?? 0, g ?? 0, b ?? 0],
-      proportion: typeof p === "number" && Number.isFinite(p) ? p : 0,
-    });
-  }
-
-  if (palette.length === 0) {
-    logError("no palette colors extracted", {
-      width: bmp.width,
-      height: bmp.height,
-    });
-  }
-
-  return palette;
+  return tax[taxIndex.nearest(rgb, matchSpace)];
 }
 
 function buildOrdMaps() {
-  const xkcd = new Map<string, number>();
-  const design = new Map<string, number>();
-  const common = new Map<string, number>();
-  const fam = new Map<string, number>();
-
-  const xkcdList: string[] = [];
-  const designList: string[] = [];
-  const commonList: string[] = [];
-  const famList: string[] = [];
-
-  let idx = 0;
-  for (const e of tax) {
-    if (!xkcd.has(e.xkcd_color)) {
-      xkcd.set(e.xkcd_color, idx);
-      xkcdList[idx] = e.xkcd_color;
-      idx++;
-    }
-  }
-  idx = 0;
-  for (const e of tax) {
-    if (!design.has(e.design_color)) {
-      design.set(e.design_color, idx);
-      designList[idx] = e.design_color;
-      idx++;
-    }
-  }
-  idx = 0;
-  for (const e of tax) {
-    if (!common.has(e.common_color)) {
-      common.set(e.common_color, idx);
-      commonList[idx] = e.common_color;
-      idx++;
-    }
-  }
-  idx = 0;
-  for (const e of tax) {
-    if (!fam.has(e.color_family)) {
-      fam.set(e.color_family, idx);
-      famList[idx] = e.color_family;
-      idx++;
+  const maps: Record<HierKey, Map<string, number>> = {};
+  const lists: Record<HierKey, string[]> = {};
+  layers.forEach((layer) => {
+    const map = new Map<string, number>();
+    const list: string[] = [];
+    for (const e of tax) {
+      const name = e.names[layer];
+      if (!map.has(name)) {
+        map.set(name, list.length);
+        list.push(name);
+      }
     }
-  }
-
-  ordMaps = {
-    xkcd_color: xkcd,
-    design_color: design,
-    common_color: common,
-    color_family: fam,
-  };
-
-  ordLists = {
-    xkcd_color: xkcdList,
-    design_color: designList,
-    common_color: commonList,
-    color_family: famList,
-  };
+    maps[layer] = map;
+    lists[layer] = list;
+  });
 
-  colorFamilyPalette = buildColorFamilyPalette(fam);
+  ordMaps = maps;
+  ordLists = lists;
+  chartPalettes = Object.fromEntries(
+    chartLayers.map((layer) => [layer, nameColors(layer, maps[layer]).map(rgbToHex)])
+  );
+  groundDistances = {};
 }
 
 function rgbToHex(rgb: [number, number, number]) {
@@ -244,10 +238,11 @@ function rgbToHex(rgb: [number, number, number]) {
     .join("")}`;
 }
 
-function buildColorFamilyPalette(famMap: Map<string, number>) {
+// mean taxonomy color of each name in `layer`, indexed like the distribution vectors
+function nameColors(layer: HierKey, nameMap: Map<string, number>) {
   const accum = new Map<string, { sum: [number, number, number]; n: number }>();
   for (const entry of tax) {
-    const key = entry.color_family;
+    const key = entry.names[layer];
     const cur = accum.get(key) ?? { sum: [0, 0, 0], n: 0 };
     cur.sum[0] += entry.rgb[0];
     cur.sum[1] += entry.rgb[1];
@@ -256,281 +251,858 @@ function buildColorFamilyPalette(famMap: Map<string, number>) {
     accum.set(key, cur);
   }
 
-  const palette: string[] = [];
-  for (const [name, idx] of famMap.entries()) {
+  const colors: [number, number, number][] = [];
+  for (const [name, idx] of nameMap.entries()) {
     const stats = accum.get(name);
-    const avg: [number, number, number] = stats
+    colors[idx] = stats
       ? [stats.sum[0] / stats.n, stats.sum[1] / stats.n, stats.sum[2] / stats.n]
       : [148, 163, 184];
-    palette[idx] = rgbToHex(avg);
   }
-  return palette;
+  return colors;
 }
 
-async function buildDistributions(kColors: number) {
-  if (!ordMaps) buildOrdMaps();
+function groundFor(layer: HierKey) {
+  groundDistances[layer] ??= groundDistance(nameColors(layer, ordMaps![layer]));
+  return groundDistances[layer];
+}
 
+function layerVectors(palette: PaletteColor[], imageIndex: number) {
   const maps = ordMaps!;
-  // distribution per image per layer
-  const dists: Record<HierKey, Float32Array[]> = {
-    xkcd_color: [],
-    design_color: [],
-    common_color: [],
-    color_family: [],
-  };
-
-  for (let i = 0; i < images.length; i++) {
-    (self as any).postMessage({
-      type: "PROGRESS",
-      phase: "extracting palettes",
-      done: i,
-      total: images.length,
-    } satisfies WorkerOut);
-
-    const palette = await extractPalette(images[i], kColors);
-
-    // accumulate proportions per taxonomy name
-    const acc: Record<HierKey, Map<string, number>> = {
-      xkcd_color: new Map(),
-      design_color: new Map(),
-      common_color: new Map(),
-      color_family: new Map(),
-    };
 
-    for (const c of palette) {
-      const rgb = c?.rgb;
-      if (
-        !Array.isArray(rgb) ||
-        rgb.length < 3 ||
-        rgb.some((v) => typeof v !== "number" || Number.isNaN(v))
-      ) {
-        logError("skipping palette entry with invalid rgb", {
-          paletteIndex: palette.indexOf(c),
-          rgb,
-        });
-        continue;
-      }
-      const nearest = nearestTaxonomy(rgb as [number, number, number]);
-      LAYERS.forEach((layer) => {
-        const key = nearest[layer];
-        acc[layer].set(key, (acc[layer].get(key) ?? 0) + c.proportion);
+  // accumulate proportions per taxonomy name
+  const acc: Record<HierKey, Map<string, number>> = {};
+  layers.forEach((layer) => (acc[layer] = new Map()));
+  let kept = 0;
+
+  for (const c of palette) {
+    const rgb = c?.rgb;
+    if (
+      !Array.isArray(rgb) ||
+      rgb.length < 3 ||
+      rgb.some((v) => typeof v !== "number" || Number.isNaN(v))
+    ) {
+      logError("skipping palette entry with invalid rgb", {
+        paletteIndex: palette.indexOf(c),
+        rgb,
       });
+      continue;
     }
+    const nearest = nearestTaxonomy(rgb as [number, number, number]);
+    if (excludeNeutral && nearest.neutral) continue;
+    kept += c.proportion;
+    layers.forEach((layer) => {
+      const key = nearest.names[layer];
+      acc[layer].set(key, (acc[layer].get(key) ?? 0) + c.proportion);
+    });
+  }
 
-    if (palette.length === 0) {
-      logError("no valid palette entries for image", { imageIndex: i });
+  if (palette.length === 0) {
+    logError("no valid palette entries for image", { imageIndex });
+  }
+  // with neutrals excluded the chromatic share is scaled back up to the full palette;
+  // an all-neutral image keeps an empty vector
+  const scale = excludeNeutral && kept > 0 ? 1 / kept : 1;
+
+  // to dense vectors
+  const vectors: Record<HierKey, Float32Array> = {};
+  layers.forEach((layer) => {
+    const size = maps[layer].size;
+    const v = new Float32Array(size);
+    for (const [name, p] of acc[layer]) {
+      const j = maps[layer].get(name);
+      if (j != null) v[j] = p * scale;
     }
+    vectors[layer] = v;
+  });
+  return vectors;
+}
 
-    // to dense vectors
-    LAYERS.forEach((layer) => {
-      const size = maps[layer].size;
-      const v = new Float32Array(size);
-      for (const [name, p] of acc[layer]) {
-        const j = maps[layer].get(name);
-        if (j != null) v[j] = p;
-      }
-      dists[layer].push(v);
+// Per-cell name histograms, concatenated cell by cell. Each cell sums to 1/LAYOUT_CELLS
+// (0 when the filter left it empty), so the vector is a distribution like the global one.
+function layoutVector(palette: PaletteColor[], layer: HierKey) {
+  const map = ordMaps![layer];
+  const size = map.size;
+  const v = new Float32Array(size * LAYOUT_CELLS);
+  const kept = new Array<number>(LAYOUT_CELLS).fill(0);
+  const matched = palette.map((c) => {
+    const nearest = nearestTaxonomy(c.rgb);
+    return excludeNeutral && nearest.neutral ? null : map.get(nearest.names[layer]);
+  });
+  palette.forEach((c, i) => {
+    const j = matched[i];
+    if (j == null || !c.cells) return;
+    c.cells.forEach((share, cell) => {
+      v[cell * size + j] += share;
+      kept[cell] += share;
     });
+  });
+  for (let cell = 0; cell < LAYOUT_CELLS; cell++) {
+    if (kept[cell] <= 0) continue;
+    const scale = 1 / (kept[cell] * LAYOUT_CELLS);
+    for (let j = 0; j < size; j++) v[cell * size + j] *= scale;
   }
+  return v;
+}
 
-  return dists;
+// the layers a request clusters on, weights summing to 1: `layer` alone, or in mixed
+// mode every layer given a positive weight
+type LayerMix = { layer: HierKey; weight: number }[];
+
+function layerMix(layer: HierKey, layerWeights: Record<HierKey, number> | null): LayerMix {
+  if (!layerWeights) {
+    if (!layers.includes(layer)) throw new InputError(`Unknown layer "${layer}"`);
+    return [{ layer, weight: 1 }];
+  }
+  const used = layers.filter((l) => (layerWeights[l] ?? 0) > 0);
+  if (!used.length) throw new InputError("Give at least one layer a weight above 0");
+  const total = used.reduce((s, l) => s + layerWeights[l], 0);
+  return used.map((l) => ({ layer: l, weight: layerWeights[l] / total }));
 }
 
-// -------------------- init samples --------------------
+const mixLabel = (mix: LayerMix) =>
+  mix.length === 1 ? mix[0].layer : mix.map((m) => `${m.layer} ×${m.weight.toFixed(2)}`).join(" + ");
+
+// Concatenates each layer's vector scaled by its weight. The result still sums to 1, so
+// every metric applies unchanged; under Hellinger the sqrt vectors come out scaled by
+// √weight, so squared distances add up layer by layer in proportion to the weights.
+function mixVectors(parts: Float32Array[], mix: LayerMix) {
+  if (mix.length === 1) return parts[0];
+  const v = new Float32Array(parts.reduce((s, p) => s + p.length, 0));
+  let offset = 0;
+  parts.forEach((part, l) => {
+    for (let j = 0; j < part.length; j++) v[offset + j] = part[j] * mix[l].weight;
+    offset += part.length;
+  });
+  return v;
+}
 
-async function loadSamplesTarGz() {
-  logInfo("fetching samples");
-  const res = await fetch(`${basePath}samples.tar.gz`);
-  if (!res.ok) {
-    throw new Error(`Failed to fetch samples: ${res.status} ${res.statusText}`);
+function paletteVector(palette: PaletteColor[], imageIndex: number, mix: LayerMix, embedding: Embedding) {
+  const histograms = embedding === "histogram" ? layerVectors(palette, imageIndex) : null;
+  const parts = mix.map(({ layer }) => histograms?.[layer] ?? layoutVector(palette, layer));
+  return mixVectors(parts, mix);
+}
+
+function embeddingVectors(mix: LayerMix, embedding: Embedding) {
+  const dists = distsCache!;
+  if (embedding === "histogram") {
+    return dists[mix[0].layer].map((_, i) => mixVectors(mix.map(({ layer }) => dists[layer][i]), mix));
   }
-  const gz = new Uint8Array(await res.arrayBuffer());
+  return palettes.map((palette, i) => {
+    if (!palette) throw new Error(`palette missing for image ${i}`);
+    return paletteVector(palette, i, mix, embedding);
+  });
+}
+
+// EMD ground distances in the order mixVectors lays the histograms out
+function groundBlocks(mix: LayerMix, embedding: Embedding) {
+  const cells = embedding === "layout" ? LAYOUT_CELLS : 1;
+  return mix.flatMap(({ layer }) => new Array<GroundDistance>(cells).fill(groundFor(layer)));
+}
+
+function paletteKey(opts: ExtractOptions) {
+  return `${opts.extractor}:k${opts.kColors}:r${opts.maxEdge}:p${pixelFilterCode(opts.pixelFilter)}`;
+}
+
+function cacheKey(hash: string, opts: ExtractOptions) {
+  return `${hash}:${paletteKey(opts)}:m${matchSpace}:n${excludeNeutral ? 1 : 0}:t${taxonomyVersion}`;
+}
+
+function extractOne(bmp: ImageBitmap, opts: ExtractOptions) {
+  return pool ? pool.extract(bmp, opts) : extractPalette(bmp, opts);
+}
+
+function usableCacheHit(
+  hit: CachedDistribution | undefined
+): hit is CachedDistribution & { layers: Record<HierKey, Float32Array> } {
+  if (!hit?.layers || !ordMaps) return false;
+  // entries written before the color layout existed have to be extracted again
+  if (!hit.palette.every((c) => Array.isArray(c.cells))) return false;
+  return layers.every(
+    (layer) =>
+      hit.layers[layer] instanceof Float32Array &&
+      hit.layers[layer].length === ordMaps![layer].size
+  );
+}
+
+async function buildDistributions(opts: ExtractOptions, job: Job) {
+  if (!ordMaps) buildOrdMaps();
+  const generation = ++extractGeneration;
+
+  // distribution per image per layer
+  const dists: Record<HierKey, Float32Array[]> = {};
+  layers.forEach((layer) => (dists[layer] = []));
+
+  const keys = imageHashes.map((hash) => cacheKey(hash, opts));
+  if (paletteKey(opts) !== paletteSettings) {
+    palettes = [];
+    paletteSettings = paletteKey(opts);
+  }
+  let cached: (CachedDistribution | undefined)[] = [];
+  try {
+    cached = await readCached(keys);
+  } catch (error) {
+    logError("distribution cache unavailable; extracting every image", error);
+  }
+
+  let pending: [string, CachedDistribution][] = [];
+  const flush = async () => {
+    const batch = pending;
+    pending = [];
+    try {
+      await writeCached(batch);
+    } catch (error) {
+      logError("failed to persist distributions", error);
+    }
+  };
+
+  const total = images.length;
+  const perImage: Record<HierKey, Float32Array>[] = new Array(total);
+  const misses: number[] = [];
+  let done = 0;
+  const report = () => job.progress("extracting palettes", done, total);
+
+  for (let i = 0; i < total; i++) {
+    const hit = cached[i];
+    if (usableCacheHit(hit)) {
+      perImage[i] = hit.layers;
+      palettes[i] ??= hit.palette;
+      done++;
+    } else {
+      misses.push(i);
+    }
+  }
+  const hits = done;
+  report();
+
+  // one lane per pool worker keeps every worker busy without queueing the whole set
+  const lanes = pool ? pool.size : 1;
+  let cursor = 0;
+  let reused = 0;
+  let abandoned = false;
+  const runLane = async () => {
+    while (cursor < misses.length && !abandoned) {
+      await job.tick();
+      if (generation !== extractGeneration) {
+        abandoned = true;
+        return;
+      }
+      const i = misses[cursor++];
+      const known = palettes[i];
+      if (known) reused++;
+      const palette = known ?? (await extractOne(images[i], opts));
+      if (generation !== extractGeneration) {
+        abandoned = true;
+        return;
+      }
+      palettes[i] = palette;
+      const vectors = layerVectors(palette, i);
+      perImage[i] = vectors;
+      pending.push([keys[i], { palette, layers: vectors }]);
+      if (pending.length >= CACHE_WRITE_BATCH) await flush();
+      done++;
+      report();
+    }
+  };
+  try {
+    await Promise.all(Array.from({ length: lanes }, runLane));
+  } finally {
+    // keep whatever finished before a cancel; the next run picks it up from the cache
+    await flush();
+  }
+
+  if (abandoned) {
+    logInfo("superseded; abandoning palette extraction");
+    return null;
+  }
+
+  perImage.forEach((vectors) => {
+    layers.forEach((layer) => dists[layer].push(vectors[layer]));
+  });
+  logInfo("palette cache", {
+    hits,
+    extracted: misses.length - reused,
+    renamed: reused,
+    matchSpace,
+    poolSize: lanes,
+  });
+  return dists;
+}
+
+// -------------------- image sources --------------------
+
+function imageTypeFor(name: string) {
+  const ext = name.split(".").pop()?.toLowerCase() ?? "";
+  return IMAGE_TYPES[ext];
+}
+
+function isArchive(name: string) {
+  return /\.(tar|tar\.gz|tgz)$/i.test(name);
+}
+
+async function unpackArchive(bytes: Uint8Array, label: string) {
   let tarBytes: Uint8Array;
-  if (gz.length >= 2 && gz[0] === 0x1f && gz[1] === 0x8b) {
-    tarBytes = pako.ungzip(gz);
+  if (bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    tarBytes = pako.ungzip(bytes);
   } else {
     // dev servers sometimes decompress .gz on the fly; accept raw tar in that case
-    tarBytes = gz;
-    logInfo("samples already decompressed by server; skipping gunzip");
+    tarBytes = bytes;
+    logInfo(`${label} is not gzipped; reading as plain tar`);
+  }
+  const buffer = tarBytes.buffer.slice(
+    tarBytes.byteOffset,
+    tarBytes.byteOffset + tarBytes.byteLength
+  ) as ArrayBuffer;
+  const files: UntarFile[] = await untar(buffer);
+
+  const sources: ImageSource[] = [];
+  for (const f of files) {
+    const type = imageTypeFor(f.name);
+    if (!type) continue;
+    sources.push({ path: f.name, blob: new Blob([f.buffer], { type }) });
+  }
+  return sources;
+}
+
+async function collectSources(files: SourceFile[], job: Job) {
+  const sources: ImageSource[] = [];
+  for (let i = 0; i < files.length; i++) {
+    await job.tick();
+    job.progress("reading files", i, files.length);
+
+    const { path, file } = files[i];
+    if (isArchive(path)) {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const entries = await unpackArchive(bytes, path);
+      // keep archive members addressable under the archive they came from
+      entries.forEach((e) => sources.push({ ...e, path: `${path}/${e.path}` }));
+      continue;
+    }
+    if (imageTypeFor(path)) {
+      sources.push({ path, blob: file });
+      continue;
+    }
+    logInfo("skipping unsupported file", { path });
   }
-  const files: UntarFile[] = await untar(tarBytes.buffer as ArrayBuffer);
-
-  // filter & sort by numeric filename
-  const jpgs = files
-    .filter((f) => f.name.endsWith(".jpg"))
-    .sort((a, b) => {
-      const na = parseInt(a.name.match(/(\d+)\.jpg$/)?.[1] ?? "0", 10);
-      const nb = parseInt(b.name.match(/(\d+)\.jpg$/)?.[1] ?? "0", 10);
-      return na - nb;
+  return sources;
+}
+
+async function decodeImages(sources: ImageSource[], phase: string, job: Job) {
+  // natural sort keeps numbered sample names (2.jpg before 10.jpg) in order
+  const sorted = [...sources].sort((a, b) =>
+    a.path.localeCompare(b.path, undefined, { numeric: true })
+  );
+
+  // decode into fresh lists so a cancelled load leaves the current set untouched
+  const nextImages: ImageBitmap[] = [];
+  const nextRecords: ImageRecord[] = [];
+  const nextHashes: string[] = [];
+  const discard = () => {
+    nextImages.forEach((bmp) => bmp.close());
+    nextRecords.forEach((rec) => URL.revokeObjectURL(rec.url));
+  };
+  for (let i = 0; i < sorted.length; i++) {
+    try {
+      await job.tick();
+    } catch (error) {
+      discard();
+      throw error;
+    }
+    job.progress(phase, i, sorted.length);
+
+    const { path, blob } = sorted[i];
+    let bmp: ImageBitmap;
+    try {
+      bmp = await createImageBitmap(blob);
+    } catch (error) {
+      logError("skipping undecodable image", { path, error });
+      continue;
+    }
+    let exif: ExifFields = {};
+    try {
+      exif = readExif(await blob.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    } catch (error) {
+      logError("ignoring unreadable EXIF block", { path, error });
+    }
+    nextHashes.push(await hashBytes(await blob.arrayBuffer()));
+    nextRecords.push({
+      path,
+      name: path.split("/").pop() || path,
+      url: URL.createObjectURL(blob),
+      width: bmp.width,
+      height: bmp.height,
+      bytes: blob.size,
+      ...exif,
     });
+    nextImages.push(bmp);
+  }
+  if (!nextImages.length) {
+    throw new InputError("None of the images could be decoded");
+  }
+
+  extractGeneration++;
+  images.forEach((bmp) => bmp.close());
+  imageRecords.forEach((rec) => URL.revokeObjectURL(rec.url));
+  images = nextImages;
+  imageRecords = nextRecords;
+  imageHashes = nextHashes;
+  palettes = [];
+  distsCache = null;
+  scoring = null;
+}
 
-  images = [];
-  imageUrls = [];
-  for (let i = 0; i < jpgs.length; i++) {
-    (self as any).postMessage({
-      type: "PROGRESS",
-      phase: "decoding samples",
-      done: i,
-      total: jpgs.length,
-    } satisfies WorkerOut);
-
-    const blob = new Blob([jpgs[i].buffer], { type: "image/jpeg" });
-    const url = URL.createObjectURL(blob);
-    imageUrls.push(url);
-    const bmp = await createImageBitmap(blob);
-    images.push(bmp);
+async function loadSamplesTarGz(job: Job) {
+  logInfo("fetching samples");
+  const res = await fetch(`${basePath}samples.tar.gz`);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch samples: ${res.status} ${res.statusText}`);
   }
+  const gz = new Uint8Array(await res.arrayBuffer());
+  const sources = await unpackArchive(gz, "samples");
+  await decodeImages(sources, "decoding samples", job);
 
   logInfo("sample archive decoded", { count: images.length });
 }
 
-async function loadTaxonomy() {
+async function fetchBuiltinTaxonomy(): Promise<TaxonomyFile> {
   logInfo("fetching taxonomy");
   const res = await fetch(`${basePath}colornamer.json`);
-  const data: RawTaxEntry[] = await res.json();
+  if (!res.ok) {
+    throw new Error(`Failed to fetch taxonomy: ${res.status} ${res.statusText}`);
+  }
+  return { name: "colornamer.json", text: await res.text(), format: "json", mapping: BUILTIN_TAXONOMY };
+}
+
+// Replaces the taxonomy, and with it the layer list, from `file` or the bundled colornamer.json.
+async function loadTaxonomy(job: Job, file?: TaxonomyFile) {
+  const source = file ?? (await fetchBuiltinTaxonomy());
+  const { mapping } = source;
+  let table: TaxonomyTable;
+  try {
+    table = parseTaxonomyTable(source.text, source.format);
+  } catch (error) {
+    throw new InputError(`${source.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const problems = mappingProblems(table, mapping);
+  if (problems.length) throw new InputError(problems.join("; "));
+
   const parsed: TaxEntry[] = [];
   let dropped = 0;
-  for (const entry of data) {
-    const { xkcd_r, xkcd_g, xkcd_b } = entry;
-    const rgb = [xkcd_r, xkcd_g, xkcd_b];
-    if (rgb.some((v) => typeof v !== "number" || Number.isNaN(v))) {
+  for (const row of table.rows) {
+    const rgb = rowColor(row, mapping);
+    const names: Record<HierKey, string> = {};
+    mapping.layers.forEach((layer) => (names[layer] = String(row[layer] ?? "").trim()));
+    if (!rgb || mapping.layers.some((layer) => !names[layer])) {
       dropped++;
       continue;
     }
-    parsed.push({
-      rgb: rgb as [number, number, number],
-      xkcd_color: entry.xkcd_color,
-      design_color: entry.design_color,
-      common_color: entry.common_color,
-      color_family: entry.color_family,
-    });
+    const neutral = mapping.neutral ? names[mapping.neutral.layer] === mapping.neutral.value : false;
+    parsed.push({ rgb, lab: rgbToLab(rgb), names, neutral });
   }
   if (dropped > 0) {
     logError("dropped invalid taxonomy rows", { dropped, kept: parsed.length });
   }
+  if (!parsed.length) {
+    throw new InputError(`${source.name} has no rows with both a color and every layer name`);
+  }
+  // names and vector layout follow from the file and the mapping, so together they version the cache
+  const version = (await hashBytes(source.text + JSON.stringify(mapping))).slice(0, 16);
+
+  // extractions and comparisons still running were built on the old layers
+  extractGeneration++;
+  distsCache = null;
+  scoring = null;
+  taxonomyVersion = version;
+  layers = [...mapping.layers];
+  summaryLayer = mapping.summaryLayer;
+  chartLayers = [summaryLayer, ...(mapping.chartLayers ?? []).filter((layer) => layer !== summaryLayer)];
+  hasNeutral = parsed.some((entry) => entry.neutral);
   tax = parsed;
+  const started = performance.now();
+  taxIndex = createTaxonomyIndex(tax);
+  logInfo("taxonomy index built", { entries: tax.length, ms: performance.now() - started });
   buildOrdMaps();
-  logInfo("taxonomy cached", { entries: tax.length });
+  logInfo("taxonomy cached", { name: source.name, entries: tax.length, layers });
+  job.emit({
+    type: "TAXONOMY",
+    taxonomy: {
+      name: source.name,
+      builtin: !file,
+      layers: layers.map((key) => ({ key, label: mapping.labels?.[key] ?? key })),
+      summaryLayer,
+      chartLayers,
+      hasNeutral,
+      entries: tax.length,
+    },
+  });
+
+  const bench = benchmarkTaxonomyIndex(tax, taxIndex, TAXONOMY_BENCH_QUERIES);
+  logInfo("taxonomy lookup benchmark", bench);
+  if (bench.some((row) => row.mismatches > 0)) {
+    logError("taxonomy index disagrees with the linear scan", bench);
+  }
 }
 
-// -------------------- message handler --------------------
+function setupPool(requested: number | undefined) {
+  pool?.terminate();
+  pool = null;
+  const size = resolvePoolSize(requested, EXTRACT_POOL_MAX);
+  // a single helper would only add a bitmap copy per image; extract in place instead
+  if (size <= 1) return;
+  try {
+    pool = createExtractPool(size);
+    logInfo("extraction pool started", { size });
+  } catch (error) {
+    logError("nested workers unavailable; extracting on the cluster worker", error);
+  }
+}
 
-self.onmessage = async (evt: MessageEvent<WorkerMsg>) => {
-  const msg = evt.data;
+async function refreshDistributions(job: Job) {
+  const dists = await buildDistributions(extractSettings, job);
+  // a newer image set took over; it runs (and reports) its own extraction
+  if (!dists) throw new SupersededError("palette extraction superseded");
+  distsCache = dists;
+  logInfo("distributions cached", { layers: layers.length });
+  return { nImages: images.length };
+}
 
-  if (msg.type === "INIT") {
-    if (msg.baseUrl) {
-      basePath = msg.baseUrl;
+// -------------------- resolution comparison --------------------
+
+function sampleIndices(n: number, max: number) {
+  if (n <= max) return Array.from({ length: n }, (_, i) => i);
+  // evenly spaced picks so the sample spans the whole (sorted) set
+  return Array.from({ length: max }, (_, i) => Math.floor((i * n) / max));
+}
+
+// Extracts a sample at each analysis edge, clusters it with the current
+// parameters and scores agreement against the largest edge (0 = full size).
+async function compareResolutions(
+  edges: number[],
+  mix: LayerMix,
+  embedding: Embedding,
+  params: ClusterParams,
+  job: Job
+) {
+  if (!images.length) throw new Error("No images loaded");
+  if (!ordMaps) buildOrdMaps();
+  const generation = extractGeneration;
+  const sample = sampleIndices(images.length, RESOLUTION_SAMPLE_MAX);
+  // 0 means "full resolution", which is the most detailed reference
+  const ordered = [...new Set(edges)].sort((a, b) => (a || Infinity) - (b || Infinity));
+
+  // one k-means seed for every edge, so the agreement reflects the resolution alone
+  const seeded = { ...params, seed: params.seed ?? randomSeed() };
+  const runs: { edge: number; ms: number; labels: number[]; nClusters: number }[] = [];
+  for (const edge of ordered) {
+    const opts = { ...extractSettings, maxEdge: edge };
+    const started = performance.now();
+    let done = 0;
+    let cursor = 0;
+    const vecs = new Array<Float32Array>(sample.length);
+    // bounded lanes as in buildDistributions, so a cancel stops queueing extractions
+    const runLane = async () => {
+      while (cursor < sample.length) {
+        await job.tick();
+        if (generation !== extractGeneration) {
+          throw new SupersededError("image set replaced during resolution comparison");
+        }
+        const j = cursor++;
+        const palette = await extractOne(images[sample[j]], opts);
+        vecs[j] = paletteVector(palette, sample[j], mix, embedding);
+        job.progress(`comparing ${edge ? `${edge}px` : "full size"}`, ++done, sample.length);
+      }
+    };
+    await Promise.all(Array.from({ length: pool ? pool.size : 1 }, runLane));
+    if (generation !== extractGeneration) {
+      throw new SupersededError("image set replaced during resolution comparison");
     }
+    const ms = performance.now() - started;
+    const ground = params.metric === "emd" ? groundBlocks(mix, embedding) : null;
+    const { labels, nClusters } = await runClustering(vecs, seeded, ground, job.tick);
+    runs.push({ edge, ms, labels, nClusters });
+  }
 
-    const kColors = msg.kColors ?? 6;
-    logInfo("INIT requested", { kColors });
+  const reference = runs[runs.length - 1];
+  const rows: ResolutionRow[] = runs.map((run) => ({
+    edge: run.edge,
+    msPerImage: run.ms / sample.length,
+    nClusters: run.nClusters,
+    noise: run.labels.filter((l) => l < 0).length / sample.length,
+    ari: adjustedRandIndex(run.labels, reference.labels),
+  }));
+  logInfo("resolution comparison", rows);
+
+  return {
+    layer: mixLabel(mix),
+    method: params.method,
+    metric: metricFor(params),
+    sampleSize: sample.length,
+    rows,
+  };
+}
 
-    try {
-      (self as any).postMessage({
-        type: "PROGRESS",
-        phase: "loading taxonomy",
-        done: 0,
-        total: 1,
-      });
-      await loadTaxonomy();
+// -------------------- request handlers --------------------
 
-      (self as any).postMessage({
-        type: "PROGRESS",
-        phase: "loading samples",
-        done: 0,
-        total: 1,
-      });
-      await loadSamplesTarGz();
-
-      (self as any).postMessage({
-        type: "READY",
-        nImages: images.length,
-        imageUrls,
-      } satisfies WorkerOut);
-      logInfo("precomputing palette distributions");
-
-      // cache distributions so clustering is instant on button press
-      distsCache = await buildDistributions(kColors);
-      logInfo("distributions cached", { layers: LAYERS.length });
-    } catch (error) {
-      fail("init", error);
+type Handlers = {
+  [K in RequestType]: (params: RequestParams<K>, job: Job) => Promise<RequestResult<K>>;
+};
+
+const handlers: Handlers = {
+  INIT: async (params, job) => {
+    basePath = params.baseUrl || basePath;
+    extractSettings = {
+      kColors: params.kColors,
+      maxEdge: params.analysisEdge,
+      extractor: params.extractor,
+      pixelFilter: params.pixelFilter,
+    };
+    matchSpace = params.matchSpace;
+    excludeNeutral = params.excludeNeutral;
+    logInfo("INIT requested", { ...extractSettings, matchSpace, excludeNeutral });
+    setupPool(params.poolSize);
+
+    job.progress("loading taxonomy", 0, 1);
+    await loadTaxonomy(job);
+
+    job.progress("loading samples", 0, 1);
+    await loadSamplesTarGz(job);
+    job.emit({ type: "IMAGES", images: imageRecords });
+    logInfo("precomputing palette distributions");
+
+    // cache distributions so clustering is instant on button press
+    return refreshDistributions(job);
+  },
+
+  LOAD_FILES: async ({ files }, job) => {
+    logInfo("LOAD_FILES requested", { files: files.length });
+    const sources = await collectSources(files, job);
+    if (!sources.length) {
+      throw new InputError("No JPEG, PNG or WebP images found in the selection");
     }
-    return;
-  }
 
-  if (msg.type === "RUN_CLUSTER") {
-    const layer = msg.layer;
-    const eps = msg.eps;
-    const minPts = msg.minPts;
-    const method = msg.method ?? "dbscan";
-    const k = msg.k ?? 8;
-    const runId = msg.runId;
-    logInfo("RUN_CLUSTER requested", { layer, eps, minPts, method, k });
+    await decodeImages(sources, "decoding images", job);
+    job.emit({ type: "IMAGES", images: imageRecords });
+    logInfo("user images decoded", { count: images.length });
+
+    return refreshDistributions(job);
+  },
 
+  REEXTRACT: async (params, job) => {
+    const previous = { extractSettings, matchSpace, excludeNeutral };
+    extractSettings = {
+      kColors: params.kColors ?? extractSettings.kColors,
+      maxEdge: params.analysisEdge ?? extractSettings.maxEdge,
+      extractor: params.extractor ?? extractSettings.extractor,
+      pixelFilter: params.pixelFilter ?? extractSettings.pixelFilter,
+    };
+    matchSpace = params.matchSpace ?? matchSpace;
+    excludeNeutral = params.excludeNeutral ?? excludeNeutral;
+    logInfo("REEXTRACT requested", { ...extractSettings, matchSpace, excludeNeutral });
     try {
-      if (!distsCache) {
-        throw new Error("Distribution cache empty. Did INIT finish?");
+      // the previous distributions stay usable until the new ones are complete
+      return await refreshDistributions(job);
+    } catch (error) {
+      // A newer load builds on these settings in its place. A cancel or failure keeps the
+      // old distributions, so the settings they were built with come back with them.
+      if (!(error instanceof SupersededError) && error !== SUPERSEDED) {
+        ({ extractSettings, matchSpace, excludeNeutral } = previous);
       }
+      throw error;
+    }
+  },
+
+  LOAD_TAXONOMY: async ({ file }, job) => {
+    logInfo("LOAD_TAXONOMY requested", { name: file?.name ?? "built-in" });
+    job.progress("loading taxonomy", 0, 1);
+    await loadTaxonomy(job, file);
+    if (!images.length) return { nImages: 0 };
+    // palettes are kept, so only the naming step runs again
+    return refreshDistributions(job);
+  },
+
+  COMPARE_RESOLUTIONS: async ({ edges, layer, layerWeights, embedding, ...params }, job) => {
+    logInfo("COMPARE_RESOLUTIONS requested", { edges, layer, layerWeights, embedding, ...params });
+    return compareResolutions(edges, layerMix(layer, layerWeights), embedding, params, job);
+  },
+
+  SUGGEST_PARAMS: async ({ layer, layerWeights, embedding, kMin, kMax, ...params }, job) => {
+    logInfo("SUGGEST_PARAMS requested", { layer, layerWeights, embedding, kMin, kMax, ...params });
+    if (!distsCache) {
+      throw new Error("Distribution cache empty. Did INIT finish?");
+    }
+    // eps for DBSCAN, k for k-means and agglomerative; the density methods have no suggestion
+    if (params.method !== "dbscan" && params.method !== "kmeans" && params.method !== "agglomerative") {
+      throw new InputError(`No parameter suggestion for ${params.method}`);
+    }
+    const mix = layerMix(layer, layerWeights);
+
+    const dists = distsCache;
+    const vecs = embeddingVectors(mix, embedding);
+    const ground = params.metric === "emd" ? groundBlocks(mix, embedding) : null;
+    const metric = metricFor(params);
+    const suggestion: ParamSuggestion = { layer: mixLabel(mix), method: params.method, metric };
+    if (params.method === "kmeans" || params.method === "agglomerative") {
+      const sample = sampleIndices(vecs.length, QUALITY_SAMPLE_MAX);
+      suggestion.kSweep = await sweepK(vecs, params, ground, sample, kMin, kMax, job.tick, (done, total) =>
+        job.progress("sweeping k", done, total)
+      );
+    } else {
+      job.progress("measuring neighbor distances", 0, 1);
+      const dist = await pairwiseDistances(vecs, metric, ground, job.tick);
+      suggestion.kDistance = await kDistanceCurve(dist, params.minPts, job.tick);
+    }
+    if (dists !== distsCache) {
+      throw new SupersededError("image set or distributions changed during the suggestion");
+    }
+    return suggestion;
+  },
+
+  CLEAR_CACHE: async () => {
+    const entries = await clearCached();
+    logInfo("distribution cache cleared", { entries });
+    return { entries };
+  },
+
+  RUN_CLUSTER: async ({ layer, layerWeights, embedding, indices, ...params }, job) => {
+    logInfo("RUN_CLUSTER requested", { layer, layerWeights, embedding, subset: indices?.length, ...params });
+    if (!distsCache) {
+      throw new Error("Distribution cache empty. Did INIT finish?");
+    }
+    const mix = layerMix(layer, layerWeights);
+    const total = distsCache[mix[0].layer].length;
+    if (indices?.some((i) => !Number.isInteger(i) || i < 0 || i >= total)) {
+      throw new InputError("Image subset does not match the loaded images");
+    }
 
-      const vecs = distsCache[layer];
+    const dists = distsCache;
+    const all = embeddingVectors(mix, embedding);
+    const vecs = indices ? indices.map((i) => all[i]) : all;
+    const ground = params.metric === "emd" ? groundBlocks(mix, embedding) : null;
+    const { labels, nClusters, tree, reachability, metric, distances, seed } = await runClustering(
+      vecs,
+      params,
+      ground,
+      job.tick
+    );
+    if (indices) {
+      if (dists !== distsCache) {
+        throw new SupersededError("image set or distributions changed during clustering");
+      }
+      // the caller folds a subset's labels into its own and summarizes the whole set then
+      logInfo("RUN_CLUSTER completed", { nClusters, method: params.method, metric, seed, subset: indices.length });
+      return { labels, layer, tree, reachability, metric, seed };
+    }
+    // k-means and DBSCAN keep no matrix; their silhouette is scored on a sample, in the
+    // metric they ran on, rather than building the full matrix just for the score
+    const sample = distances ? null : sampleIndices(vecs.length, QUALITY_SAMPLE_MAX);
+    const scored = sample ? await pairwiseDistances(sample.map((i) => vecs[i]), metric, ground, job.tick) : distances!;
+    const data = hellingerEmbed(vecs);
+    const quality = await clusterQuality(scored, sample, data, labels, job.tick);
+    if (dists !== distsCache) {
+      throw new SupersededError("image set or distributions changed during clustering");
+    }
 
-      // sqrt-transform (Hellinger embedding)
-      const sqrtVecs = vecs.map((v) => {
-        const out = new Float32Array(v.length);
-        for (let i = 0; i < v.length; i++) out[i] = Math.sqrt(v[i]);
-        return out;
-      });
+    scoring = { dists, distances: scored, sample, data };
+    logInfo("RUN_CLUSTER completed", { nClusters, method: params.method, metric, seed, silhouette: quality.silhouette });
+    return { labels, layer, summaries: summarizeClusters(labels), tree, reachability, metric, quality, seed };
+  },
 
-      const data = sqrtVecs.map((v) => Array.from(v));
-      const labels = new Array<number>(sqrtVecs.length).fill(-1);
-      let clusters: number[][] = [];
-
-      if (method === "kmeans") {
-        const kAdj = Math.max(1, Math.min(k, data.length));
-        const km = new KMEANS();
-        clusters = km.run(data, kAdj);
-      } else {
-        // DBSCAN with custom distance
-        const db = new DBSCAN();
-        clusters = db.run(data, eps, minPts, (a: number[], b: number[]) => {
-          // Euclid in sqrt-space
-          let s = 0;
-          for (let i = 0; i < a.length; i++) {
-            const d = a[i] - b[i];
-            s += d * d;
-          }
-          return Math.sqrt(s);
-        });
-      }
+  SUMMARIZE: async ({ labels }, job) => {
+    if (distsCache && labels.length !== images.length) {
+      throw new InputError("Labels do not match the loaded images");
+    }
+    const quality =
+      scoring && scoring.dists === distsCache && scoring.data.length === labels.length
+        ? await clusterQuality(scoring.distances, scoring.sample, scoring.data, labels, job.tick)
+        : undefined;
+    return { summaries: summarizeClusters(labels), quality };
+  },
+
+  CANCEL: async ({ requestId }) => {
+    logInfo("CANCEL requested", { requestId });
+    const controller = running.get(requestId);
+    controller?.abort();
+    return { cancelled: controller !== undefined };
+  },
+};
 
-      clusters.forEach((cluster, ci) => {
-        cluster.forEach((idx) => (labels[idx] = ci));
-      });
+self.onmessage = async (evt: MessageEvent<WorkerRequest>) => {
+  const msg = evt.data;
+  if (msg?.v !== PROTOCOL_VERSION) {
+    logError("dropping message with unknown protocol version", msg);
+    respond({
+      v: PROTOCOL_VERSION,
+      id: msg?.id ?? -1,
+      kind: "error",
+      error: {
+        stage: "worker",
+        message: `Protocol version mismatch (got ${msg?.v}, expected ${PROTOCOL_VERSION})`,
+        recoverable: false,
+        state: currentState(),
+      },
+    });
+    return;
+  }
 
-      const colorFamilyDist = summarizeColorFamilies(labels);
+  const { id, type } = msg;
+  const controller = new AbortController();
+  const group = requestGroup(type, msg.params);
+  if (group) {
+    latest[group]?.abort(SUPERSEDED);
+    latest[group] = controller;
+  }
+  running.set(id, controller);
+  const job: Job = {
+    tick: createTick(controller.signal),
+    progress: (phase, done, total) => job.emit({ type: "PROGRESS", phase, done, total }),
+    emit: (event) => respond({ v: PROTOCOL_VERSION, id, kind: "event", event }),
+  };
 
-      (self as any).postMessage({
-        type: "CLUSTERS",
-        labels,
-        layer,
-        runId,
-        colorFamilyDist,
-      } satisfies WorkerOut);
-      logInfo("RUN_CLUSTER completed", { nClusters: clusters.length, method });
-    } catch (error) {
-      fail("cluster", error);
+  try {
+    const handler = handlers[type] as (params: unknown, job: Job) => Promise<unknown>;
+    const result = await handler(msg.params, job);
+    respond({ v: PROTOCOL_VERSION, id, kind: "result", result });
+  } catch (error) {
+    if (controller.signal.aborted || error instanceof SupersededError) {
+      const superseded =
+        error instanceof SupersededError || controller.signal.reason === SUPERSEDED;
+      logInfo(`${type} ${superseded ? "superseded" : "cancelled"}`, { id });
+      respond({
+        v: PROTOCOL_VERSION,
+        id,
+        kind: "cancelled",
+        superseded,
+        state: currentState(),
+      });
+      return;
     }
+    fail(id, type, error);
+  } finally {
+    running.delete(id);
+    if (group && latest[group] === controller) delete latest[group];
   }
 };
 
-function summarizeColorFamilies(
+// per-cluster share of each name in every chart layer, for the pie charts
+function summarizeClusters(
   labels: number[]
-): ClusterDistribution[] | undefined {
-  if (!distsCache || !ordLists || !colorFamilyPalette) return undefined;
-  const famVecs = distsCache.color_family;
-  if (!famVecs.length) return undefined;
-  const nDims = famVecs[0].length;
+): Record<HierKey, ClusterDistribution[]> | undefined {
+  if (!distsCache || !ordLists || !chartPalettes) return undefined;
+  const summaries: Record<HierKey, ClusterDistribution[]> = {};
+  chartLayers.forEach((layer) => {
+    const vecs = distsCache![layer];
+    if (!vecs?.length) return;
+    summaries[layer] = summarizeLayer(labels, vecs, ordLists![layer], chartPalettes![layer]);
+  });
+  return summaries;
+}
+
+function summarizeLayer(
+  labels: number[],
+  vecs: Float32Array[],
+  names: string[],
+  palette: string[]
+): ClusterDistribution[] {
+  const nDims = vecs[0].length;
 
   const agg = new Map<number, Float32Array>();
   const ensure = (id: number) => {
@@ -539,7 +1111,7 @@ function summarizeColorFamilies(
   };
 
   labels.forEach((lab, i) => {
-    const vec = famVecs[i];
+    const vec = vecs[i];
     const target = ensure(lab);
     for (let j = 0; j < nDims; j++) target[j] += vec[j];
   });
@@ -553,9 +1125,9 @@ function summarizeColorFamilies(
       .filter((p) => p.v > 0)
       .sort((a, b) => b.v - a.v)
       .map((p) => ({
-        name: ordLists!.color_family[p.idx] ?? `fam-${p.idx}`,
+        name: names[p.idx] ?? `name-${p.idx}`,
         pct: p.v / total,
-        color: colorFamilyPalette![p.idx] ?? "#94a3b8",
+        color: palette[p.idx] ?? "#94a3b8",
       }));
     result.push({ id, parts });
   });
@@ -0,0 +1,249 @@
+import type { ClusterMethod, Dendrogram, DistanceMetric, Linkage, Reachability } from "../types";
+import { agglomerate, cutDendrogram } from "./agglomerative";
+import type { Tick } from "./cancel";
+import { hdbscan, optics } from "./density";
+import { metricDistance, pairwiseDistances, type DistanceMatrix, type GroundDistance } from "./metrics";
+import { lcg, randomSeed } from "./random";
+
+export type ClusterParams = {
+  method: ClusterMethod;
+  eps: number;
+  minPts: number;
+  minClusterSize: number;
+  k: number;
+  linkage: Linkage;
+  metric: DistanceMetric;
+  // k-means only; null draws a fresh seed
+  seed: number | null;
+  restarts: number;
+  maxIter: number;
+};
+
+export type ClusteringOutput = {
+  labels: number[];
+  nClusters: number;
+  tree?: Dendrogram;
+  reachability?: Reachability;
+  // the metric actually used; k-means and Ward need Euclidean space and stay on Hellinger
+  metric: DistanceMetric;
+  // pairwise distances the method ran on, kept for scoring; k-means and DBSCAN have none
+  distances?: DistanceMatrix;
+  // k-means only: the seed it ran with, whether requested or drawn
+  seed?: number;
+};
+
+// sqrt-transform (Hellinger embedding): Euclidean distance between the results is the Hellinger distance
+export function hellingerEmbed(vecs: Float32Array[]) {
+  return vecs.map((v) => {
+    const out = new Array<number>(v.length);
+    for (let i = 0; i < v.length; i++) out[i] = Math.sqrt(v[i]);
+    return out;
+  });
+}
+
+const squaredEuclidean = (a: number[], b: number[]) => {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += (a[i] - b[i]) ** 2;
+  return s;
+};
+
+type Distance = (p: Float32Array, q: Float32Array) => number;
+
+// one row of distances, measured when asked for; each point is queried at most once
+async function regionQuery(vecs: Float32Array[], distance: Distance, p: number, eps: number, tick: Tick) {
+  await tick();
+  const out: number[] = [];
+  for (let q = 0; q < vecs.length; q++) {
+    if (q === p || distance(vecs[p], vecs[q]) < eps) out.push(q);
+  }
+  return out;
+}
+
+// Same semantics as density-clustering's DBSCAN (strict `< eps`, the point counts
+// towards its own neighborhood), written to yield so it can be cancelled. Neighborhoods
+// are measured row by row, so memory stays linear in the number of images.
+async function dbscan(vecs: Float32Array[], distance: Distance, eps: number, minPts: number, tick: Tick) {
+  const n = vecs.length;
+  const labels = new Array<number>(n).fill(-1);
+  const visited = new Uint8Array(n);
+  let nClusters = 0;
+
+  for (let p = 0; p < n; p++) {
+    if (visited[p]) continue;
+    visited[p] = 1;
+    const neighbors = await regionQuery(vecs, distance, p, eps, tick);
+    if (neighbors.length < minPts) continue;
+
+    const id = nClusters++;
+    labels[p] = id;
+    const seen = new Set(neighbors);
+    for (let i = 0; i < neighbors.length; i++) {
+      const q = neighbors[i];
+      if (!visited[q]) {
+        visited[q] = 1;
+        const more = await regionQuery(vecs, distance, q, eps, tick);
+        if (more.length >= minPts) {
+          for (const r of more) {
+            if (!seen.has(r)) {
+              seen.add(r);
+              neighbors.push(r);
+            }
+          }
+        }
+      }
+      if (labels[q] < 0) labels[q] = id;
+    }
+  }
+  return { labels, nClusters };
+}
+
+// k-means++ seeding: each next center is picked with probability proportional to its
+// squared distance from the nearest center chosen so far
+function seedCentroids(data: number[][], k: number, rand: () => number) {
+  const centroids = [[...data[Math.floor(rand() * data.length)]]];
+  const nearest = data.map((p) => squaredEuclidean(p, centroids[0]));
+  while (centroids.length < k) {
+    const sum = nearest.reduce((s, d) => s + d, 0);
+    // fewer distinct points than k
+    if (sum === 0) break;
+    let pick = rand() * sum;
+    let i = 0;
+    while (i < data.length - 1 && pick >= nearest[i]) pick -= nearest[i++];
+    centroids.push([...data[i]]);
+    data.forEach((p, j) => (nearest[j] = Math.min(nearest[j], squaredEuclidean(p, data[i]))));
+  }
+  return centroids;
+}
+
+// one Lloyd's run, iterated until assignments settle or maxIter is reached
+async function lloyd(data: number[][], centroids: number[][], maxIter: number, tick: Tick) {
+  const n = data.length;
+  const assign = new Array<number>(n).fill(-1);
+  const nearest = new Array<number>(n).fill(0);
+  for (let iter = 0; iter < maxIter; iter++) {
+    let changed = false;
+    for (let i = 0; i < n; i++) {
+      if (i % 256 === 0) await tick();
+      let best = 0;
+      let bestD = Infinity;
+      for (let c = 0; c < centroids.length; c++) {
+        const d = squaredEuclidean(data[i], centroids[c]);
+        if (d < bestD) {
+          bestD = d;
+          best = c;
+        }
+      }
+      nearest[i] = bestD;
+      if (assign[i] !== best) {
+        assign[i] = best;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+
+    const dims = data[0].length;
+    const sums = centroids.map(() => new Array<number>(dims).fill(0));
+    const counts = new Array<number>(centroids.length).fill(0);
+    for (let i = 0; i < n; i++) {
+      counts[assign[i]]++;
+      const row = sums[assign[i]];
+      for (let j = 0; j < dims; j++) row[j] += data[i][j];
+    }
+    // an emptied cluster keeps its old centroid
+    centroids = centroids.map((old, c) => (counts[c] ? sums[c].map((v) => v / counts[c]) : old));
+  }
+  // against the centroids of the final assignment pass
+  const inertia = nearest.reduce((s, d) => s + d, 0);
+  return { assign, inertia };
+}
+
+export type KMeansOptions = { seed: number; restarts: number; maxIter: number };
+
+// k-means++ seeded Lloyd's k-means, restarted from fresh seeds and keeping the run with
+// the lowest inertia. The same seed always gives the same partition.
+export async function kmeans(data: number[][], k: number, opts: KMeansOptions, tick: Tick) {
+  const kAdj = Math.max(1, Math.min(k, data.length));
+  const rand = lcg(opts.seed);
+  let best: { assign: number[]; inertia: number } | null = null;
+  for (let run = 0; run < Math.max(1, opts.restarts); run++) {
+    const result = await lloyd(data, seedCentroids(data, kAdj, rand), Math.max(1, opts.maxIter), tick);
+    if (!best || result.inertia < best.inertia) best = result;
+  }
+  return compactLabels(best!.assign);
+}
+
+// renumber labels 0..n-1 in order of first appearance, leaving noise (-1) alone
+export function compactLabels(raw: number[]) {
+  const remap = new Map<number, number>();
+  const labels = raw.map((l) => {
+    if (l < 0) return -1;
+    if (!remap.has(l)) remap.set(l, remap.size);
+    return remap.get(l)!;
+  });
+  return { labels, nClusters: remap.size };
+}
+
+// k-means averages and Ward's variance criterion only make sense in Euclidean space
+export function metricFor(params: Pick<ClusterParams, "method" | "linkage" | "metric">): DistanceMetric {
+  if (params.method === "kmeans") return "hellinger";
+  if (params.method === "agglomerative" && params.linkage === "ward") return "hellinger";
+  return params.metric;
+}
+
+// `ground` is only read for EMD
+export async function runClustering(
+  vecs: Float32Array[],
+  params: ClusterParams,
+  ground: GroundDistance[] | null,
+  tick: Tick
+): Promise<ClusteringOutput> {
+  const metric = metricFor(params);
+  if (!vecs.length) return { labels: [], nClusters: 0, metric };
+  if (params.method === "kmeans") {
+    const seed = params.seed ?? randomSeed();
+    const opts = { seed, restarts: params.restarts, maxIter: params.maxIter };
+    return { ...(await kmeans(hellingerEmbed(vecs), params.k, opts, tick)), metric, seed };
+  }
+  if (params.method === "dbscan") {
+    return { ...(await dbscan(vecs, metricDistance(metric, ground), params.eps, params.minPts, tick)), metric };
+  }
+  const distances = await pairwiseDistances(vecs, metric, ground, tick);
+  const out = { metric, distances };
+  if (params.method === "hdbscan") {
+    return { ...(await hdbscan(distances, params.minClusterSize, params.minPts, tick)), ...out };
+  }
+  if (params.method === "optics") {
+    return { ...(await optics(distances, params.minPts, params.minClusterSize, tick)), ...out };
+  }
+  const tree = await agglomerate(distances, params.linkage, tick);
+  const labels = cutDendrogram(tree, params.k);
+  return { labels, nClusters: new Set(labels).size, tree, ...out };
+}
+
+const choose2 = (n: number) => (n * (n - 1)) / 2;
+
+// Adjusted Rand Index: 1 for identical partitions, ~0 for chance-level agreement.
+// Noise (-1) is treated as one more group so both partitions cover every item.
+export function adjustedRandIndex(a: number[], b: number[]) {
+  const n = a.length;
+  if (n < 2) return 1;
+  const table = new Map<string, number>();
+  const rows = new Map<number, number>();
+  const cols = new Map<number, number>();
+  for (let i = 0; i < n; i++) {
+    const key = `${a[i]}|${b[i]}`;
+    table.set(key, (table.get(key) ?? 0) + 1);
+    rows.set(a[i], (rows.get(a[i]) ?? 0) + 1);
+    cols.set(b[i], (cols.get(b[i]) ?? 0) + 1);
+  }
+  let index = 0;
+  table.forEach((c) => (index += choose2(c)));
+  let sumRows = 0;
+  rows.forEach((c) => (sumRows += choose2(c)));
+  let sumCols = 0;
+  cols.forEach((c) => (sumCols += choose2(c)));
+  const expected = (sumRows * sumCols) / choose2(n);
+  const max = (sumRows + sumCols) / 2;
+  if (max === expected) return 1;
+  return (index - expected) / (max - expected);
+}
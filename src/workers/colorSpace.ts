@@ -0,0 +1,95 @@
+// Color conversions and distances used to match palette colors to taxonomy entries.
+
+export type Lab = [number, number, number];
+
+// D65 reference white
+const XN = 0.95047;
+const YN = 1;
+const ZN = 1.08883;
+const DEG = Math.PI / 180;
+const POW25_7 = 25 ** 7;
+
+function srgbToLinear(v: number) {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function labF(t: number) {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+// 8-bit sRGB to CIELAB (D65)
+export function rgbToLab(rgb: readonly [number, number, number]): Lab {
+  const r = srgbToLinear(rgb[0]);
+  const g = srgbToLinear(rgb[1]);
+  const b = srgbToLinear(rgb[2]);
+  const x = labF((0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / XN);
+  const y = labF((0.2126729 * r + 0.7151522 * g + 0.072175 * b) / YN);
+  const z = labF((0.0193339 * r + 0.119192 * g + 0.9503041 * b) / ZN);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+}
+
+// squared ΔE76; the square root doesn't change which entry is nearest
+export function deltaE76Sq(a: Lab, b: Lab) {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function hueDeg(b: number, a: number) {
+  if (a === 0 && b === 0) return 0;
+  const h = Math.atan2(b, a) / DEG;
+  return h < 0 ? h + 360 : h;
+}
+
+// CIEDE2000 (kL = kC = kH = 1), following Sharma, Wu & Dalal (2005)
+export function ciede2000(lab1: Lab, lab2: Lab) {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+
+  const cBar7 = ((Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + POW25_7)));
+  const a1p = (1 + g) * a1;
+  const a2p = (1 + g) * a2;
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const h1p = hueDeg(b1, a1p);
+  const h2p = hueDeg(b2, a2p);
+  const chromaProduct = c1p * c2p;
+
+  let dhp = 0;
+  if (chromaProduct !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dLp = L2 - L1;
+  const dCp = c2p - c1p;
+  const dHp = 2 * Math.sqrt(chromaProduct) * Math.sin((dhp * DEG) / 2);
+
+  const lBarP = (L1 + L2) / 2;
+  const cBarP = (c1p + c2p) / 2;
+  let hBarP = h1p + h2p;
+  if (chromaProduct !== 0) {
+    if (Math.abs(h1p - h2p) > 180) hBarP += hBarP < 360 ? 360 : -360;
+    hBarP /= 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hBarP - 30) * DEG) +
+    0.24 * Math.cos(2 * hBarP * DEG) +
+    0.32 * Math.cos((3 * hBarP + 6) * DEG) -
+    0.2 * Math.cos((4 * hBarP - 63) * DEG);
+  const dTheta = 30 * Math.exp(-(((hBarP - 275) / 25) ** 2));
+  const cBarP7 = cBarP ** 7;
+  const rc = 2 * Math.sqrt(cBarP7 / (cBarP7 + POW25_7));
+  const lShift = (lBarP - 50) ** 2;
+  const sl = 1 + (0.015 * lShift) / Math.sqrt(20 + lShift);
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(2 * dTheta * DEG) * rc;
+
+  const l = dLp / sl;
+  const c = dCp / sc;
+  const h = dHp / sh;
+  return Math.sqrt(l * l + c * c + h * h + rt * c * h);
+}
@@ -0,0 +1,308 @@
+import type { Reachability } from "../types";
+import type { Tick } from "./cancel";
+import type { DistanceMatrix } from "./metrics";
+
+// steepness for OPTICS cluster extraction, as in scikit-learn's default
+const OPTICS_XI = 0.05;
+// stands in for 1 / 0 when duplicate images sit at distance 0
+const LAMBDA_MAX = 1e12;
+
+// distance to the minSamples-th nearest neighbor, the point itself included
+async function coreDistances(dist: DistanceMatrix, minSamples: number, tick: Tick) {
+  const { n } = dist;
+  const k = Math.min(n, Math.max(1, minSamples)) - 1;
+  const core = new Float64Array(n);
+  const row = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    await tick();
+    for (let j = 0; j < n; j++) row[j] = dist.at(i, j);
+    core[i] = row.sort()[k];
+  }
+  return core;
+}
+
+// -------------------- HDBSCAN --------------------
+
+type CondensedEdge = { parent: number; child: number; lambda: number; size: number };
+
+// HDBSCAN* (Campello et al.): single linkage over mutual reachability distances, condensed
+// to clusters of at least minClusterSize and picked by excess of mass. The root is never
+// selected, so a dataset with one blob comes back as noise rather than a single cluster.
+export async function hdbscan(dist: DistanceMatrix, minClusterSize: number, minSamples: number, tick: Tick) {
+  const { n } = dist;
+  const mcs = Math.max(2, minClusterSize);
+  if (n < mcs) return { labels: new Array<number>(n).fill(-1), nClusters: 0 };
+  const core = await coreDistances(dist, minSamples, tick);
+  const reach = (a: number, b: number) => Math.max(core[a], core[b], dist.at(a, b));
+
+  // Prim's MST on the dense mutual reachability graph
+  const inTree = new Uint8Array(n);
+  const best = new Float64Array(n).fill(Infinity);
+  const from = new Int32Array(n).fill(-1);
+  const edges: { a: number; b: number; d: number }[] = [];
+  let current = 0;
+  inTree[0] = 1;
+  for (let step = 1; step < n; step++) {
+    await tick();
+    let next = -1;
+    for (let j = 0; j < n; j++) {
+      if (inTree[j]) continue;
+      const d = reach(current, j);
+      if (d < best[j]) {
+        best[j] = d;
+        from[j] = current;
+      }
+      if (next < 0 || best[j] < best[next]) next = j;
+    }
+    edges.push({ a: from[next], b: next, d: best[next] });
+    inTree[next] = 1;
+    current = next;
+  }
+  edges.sort((p, q) => p.d - q.d);
+
+  // single linkage tree: node n + i joins the two components of edge i
+  const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+  const find = (i: number) => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  const left = new Int32Array(n - 1);
+  const right = new Int32Array(n - 1);
+  const height = new Float64Array(n - 1);
+  const size = new Int32Array(2 * n - 1).fill(1);
+  edges.forEach(({ a, b, d }, i) => {
+    const ra = find(a);
+    const rb = find(b);
+    left[i] = ra;
+    right[i] = rb;
+    height[i] = d;
+    size[n + i] = size[ra] + size[rb];
+    parent[ra] = parent[rb] = n + i;
+  });
+
+  // condense: walk down from the root, keeping splits where both sides are big enough
+  const condensed: CondensedEdge[] = [];
+  const lambdaOf = (d: number) => (d > 0 ? 1 / d : LAMBDA_MAX);
+  const leavesUnder = (node: number) => {
+    const out: number[] = [];
+    const stack = [node];
+    while (stack.length) {
+      const v = stack.pop()!;
+      if (v < n) out.push(v);
+      else stack.push(left[v - n], right[v - n]);
+    }
+    return out;
+  };
+  const root = 2 * n - 2;
+  let nextLabel = n + 1;
+  const queue: [number, number][] = [[root, n]];
+  while (queue.length) {
+    const [node, label] = queue.pop()!;
+    if (node < n) continue;
+    const lambda = lambdaOf(height[node - n]);
+    const children = [left[node - n], right[node - n]];
+    const big = children.filter((c) => size[c] >= mcs);
+    if (big.length === 2) {
+      for (const child of children) {
+        const childLabel = nextLabel++;
+        condensed.push({ parent: label, child: childLabel, lambda, size: size[child] });
+        queue.push([child, childLabel]);
+      }
+      continue;
+    }
+    for (const child of children) {
+      if (size[child] >= mcs) {
+        queue.push([child, label]);
+        continue;
+      }
+      for (const point of leavesUnder(child)) condensed.push({ parent: label, child: point, lambda, size: 1 });
+    }
+  }
+  await tick();
+
+  // stability: sum over members of (lambda they leave at - lambda the cluster was born at)
+  const birth = new Map<number, number>([[n, 0]]);
+  const clusterParent = new Map<number, number>();
+  condensed.forEach((e) => {
+    if (e.child >= n) {
+      birth.set(e.child, e.lambda);
+      clusterParent.set(e.child, e.parent);
+    }
+  });
+  const stability = new Map<number, number>();
+  condensed.forEach((e) => {
+    stability.set(e.parent, (stability.get(e.parent) ?? 0) + (e.lambda - birth.get(e.parent)!) * e.size);
+  });
+
+  // excess of mass: children labels are larger than their parent's, so descending order is bottom-up
+  const clusters = [...birth.keys()].sort((a, b) => b - a);
+  const childrenOf = new Map<number, number[]>();
+  clusterParent.forEach((p, c) => childrenOf.set(p, [...(childrenOf.get(p) ?? []), c]));
+  const selected = new Set<number>();
+  const score = new Map<number, number>();
+  for (const c of clusters) {
+    const own = stability.get(c) ?? 0;
+    const kids = childrenOf.get(c) ?? [];
+    const subtree = kids.reduce((s, k) => s + score.get(k)!, 0);
+    if (c !== n && (!kids.length || own >= subtree)) {
+      score.set(c, own);
+      const stack = [...kids];
+      while (stack.length) {
+        const k = stack.pop()!;
+        selected.delete(k);
+        stack.push(...(childrenOf.get(k) ?? []));
+      }
+      selected.add(c);
+    } else {
+      score.set(c, subtree);
+    }
+  }
+
+  // a point belongs to the selected cluster above the cluster it fell out of
+  const ids = new Map([...selected].sort((a, b) => a - b).map((c, i) => [c, i]));
+  const labels = new Array<number>(n).fill(-1);
+  condensed.forEach((e) => {
+    if (e.child >= n) return;
+    let c: number | undefined = e.parent;
+    while (c !== undefined && !selected.has(c)) c = clusterParent.get(c);
+    if (c !== undefined) labels[e.child] = ids.get(c)!;
+  });
+  return { labels, nClusters: ids.size };
+}
+
+// -------------------- OPTICS --------------------
+
+// OPTICS ordering (no max eps), with clusters taken from the reachability plot by the
+// ξ-steep-area method, ported from scikit-learn's cluster_optics_xi.
+export async function optics(dist: DistanceMatrix, minSamples: number, minClusterSize: number, tick: Tick) {
+  const { n } = dist;
+  const core = await coreDistances(dist, minSamples, tick);
+  const reachability = new Float64Array(n).fill(Infinity);
+  const predecessor = new Int32Array(n).fill(-1);
+  const processed = new Uint8Array(n);
+  const ordering: number[] = [];
+  for (let step = 0; step < n; step++) {
+    await tick();
+    // the unprocessed point with the smallest reachability, lowest index on ties
+    let point = -1;
+    for (let j = 0; j < n; j++) {
+      if (!processed[j] && (point < 0 || reachability[j] < reachability[point])) point = j;
+    }
+    processed[point] = 1;
+    ordering.push(point);
+    for (let q = 0; q < n; q++) {
+      if (processed[q]) continue;
+      const r = Math.max(core[point], dist.at(point, q));
+      if (r < reachability[q]) {
+        reachability[q] = r;
+        predecessor[q] = point;
+      }
+    }
+  }
+
+  const plot = ordering.map((i) => reachability[i]);
+  const predecessors = ordering.map((i) => predecessor[i]);
+  const spans = xiClusters(plot, predecessors, ordering, Math.max(2, minSamples), Math.max(2, minClusterSize));
+  const inOrder = new Array<number>(n).fill(-1);
+  let nClusters = 0;
+  for (const [start, end] of spans) {
+    if (inOrder.slice(start, end + 1).some((l) => l !== -1)) continue;
+    inOrder.fill(nClusters++, start, end + 1);
+  }
+  const labels = new Array<number>(n);
+  ordering.forEach((point, i) => (labels[point] = inOrder[i]));
+  const plotData: Reachability = { ordering, reachability: plot };
+  return { labels, nClusters, reachability: plotData };
+}
+
+type SteepDownArea = { start: number; end: number; mib: number };
+
+function extendRegion(steep: boolean[], xward: boolean[], start: number, minSamples: number) {
+  let nonXward = 0;
+  let end = start;
+  for (let i = start; i < steep.length; i++) {
+    if (steep[i]) {
+      nonXward = 0;
+      end = i;
+    } else if (!xward[i]) {
+      if (++nonXward > minSamples) break;
+    } else {
+      return end;
+    }
+  }
+  return end;
+}
+
+function correctPredecessor(plot: number[], predecessors: number[], ordering: number[], s: number, e: number) {
+  while (s < e) {
+    if (plot[s] > plot[e]) return [s, e] as const;
+    const p = predecessors[e];
+    for (let i = s; i < e; i++) if (ordering[i] === p) return [s, e] as const;
+    e--;
+  }
+  return null;
+}
+
+function xiClusters(
+  reachability: number[],
+  predecessors: number[],
+  ordering: number[],
+  minSamples: number,
+  minClusterSize: number
+) {
+  const plot = [...reachability, Infinity];
+  const keep = 1 - OPTICS_XI;
+  const ratio = reachability.map((r, i) => r / plot[i + 1]);
+  const steepUp = ratio.map((r) => r <= keep);
+  const steepDown = ratio.map((r) => r >= 1 / keep);
+  const down = ratio.map((r) => r > 1);
+  const up = ratio.map((r) => r < 1);
+
+  let sdas: SteepDownArea[] = [];
+  const filterSdas = (mib: number) => {
+    if (!Number.isFinite(mib)) return [];
+    const kept = sdas.filter((sda) => mib <= plot[sda.start] * keep);
+    kept.forEach((sda) => (sda.mib = Math.max(sda.mib, mib)));
+    return kept;
+  };
+
+  const clusters: [number, number][] = [];
+  let index = 0;
+  let mib = 0;
+  for (let steep = 0; steep < reachability.length; steep++) {
+    if (!(steepUp[steep] || steepDown[steep]) || steep < index) continue;
+    mib = Math.max(mib, ...plot.slice(index, steep + 1));
+    sdas = filterSdas(mib);
+    if (steepDown[steep]) {
+      const end = extendRegion(steepDown, up, steep, minSamples);
+      sdas.push({ start: steep, end, mib: 0 });
+      index = end + 1;
+      mib = plot[index];
+      continue;
+    }
+
+    const upStart = steep;
+    const upEnd = extendRegion(steepUp, down, steep, minSamples);
+    index = upEnd + 1;
+    mib = plot[index];
+    const found: [number, number][] = [];
+    for (const sda of sdas) {
+      let start = sda.start;
+      let end = upEnd;
+      if (plot[end + 1] * keep < sda.mib) continue;
+      const dMax = plot[sda.start];
+      if (dMax * keep >= plot[end + 1]) {
+        while (plot[start + 1] > plot[end + 1] && start < sda.end) start++;
+      } else if (plot[end + 1] * keep >= dMax) {
+        while (plot[end - 1] > dMax && end > upStart) end--;
+      }
+      const corrected = correctPredecessor(plot, predecessors, ordering, start, end);
+      if (!corrected) continue;
+      [start, end] = corrected;
+      if (end - start + 1 < minClusterSize || start > sda.end || end < upStart) continue;
+      found.push([start, end]);
+    }
+    clusters.push(...found.reverse());
+  }
+  return clusters;
+}
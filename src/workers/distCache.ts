@@ -0,0 +1,83 @@
+// IndexedDB store for per-image palettes and layer vectors, so reloading a known
+// image set skips palette extraction entirely.
+
+export type CachedDistribution = {
+  palette: { rgb: [number, number, number]; proportion: number; cells?: number[] }[];
+  layers: Record<string, Float32Array>;
+};
+
+const DB_NAME = "huegraph";
+const DB_VERSION = 1;
+const STORE = "distributions";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("transaction aborted"));
+  });
+}
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) {
+          req.result.createObjectStore(STORE);
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // let a later call retry if opening failed (e.g. storage blocked for this origin)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export async function hashBytes(data: ArrayBuffer | string) {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function readCached(keys: string[]) {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readonly");
+  const store = tx.objectStore(STORE);
+  const results = await Promise.all(
+    keys.map((key) => requestToPromise(store.get(key) as IDBRequest<CachedDistribution | undefined>))
+  );
+  return results;
+}
+
+export async function writeCached(entries: [string, CachedDistribution][]) {
+  if (!entries.length) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  entries.forEach(([key, value]) => store.put(value, key));
+  await transactionDone(tx);
+}
+
+export async function clearCached() {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  const count = await requestToPromise(store.count());
+  store.clear();
+  await transactionDone(tx);
+  return count;
+}
@@ -0,0 +1,87 @@
+/// <reference lib="webworker" />
+
+import PaletteWorker from "./paletteWorker?worker";
+import type { ExtractOptions, PaletteColor } from "./palette";
+import type { PaletteRequest, PaletteResponse } from "./paletteWorker";
+
+export type ExtractPool = {
+  size: number;
+  extract: (bitmap: ImageBitmap, opts: ExtractOptions) => Promise<PaletteColor[]>;
+  terminate: () => void;
+};
+
+type Job = {
+  id: number;
+  bitmap: ImageBitmap;
+  opts: ExtractOptions;
+  resolve: (palette: PaletteColor[]) => void;
+  reject: (error: Error) => void;
+};
+
+type Slot = { worker: Worker; job: Job | null };
+
+// Leave one core for the cluster worker itself and one for the UI thread.
+export function resolvePoolSize(requested: number | undefined, max: number) {
+  if (requested && requested > 0) return Math.min(requested, max);
+  const cores = self.navigator?.hardwareConcurrency || 2;
+  return Math.max(1, Math.min(max, cores - 2));
+}
+
+export function createExtractPool(size: number): ExtractPool {
+  const queue: Job[] = [];
+  let nextId = 0;
+
+  const dispatch = (slot: Slot) => {
+    const job = queue.shift();
+    slot.job = job ?? null;
+    if (!job) return;
+    try {
+      slot.worker.postMessage({
+        type: "EXTRACT",
+        id: job.id,
+        bitmap: job.bitmap,
+        opts: job.opts,
+      } satisfies PaletteRequest);
+    } catch (error) {
+      // a bitmap closed after queueing (image set replaced) can't be cloned
+      job.reject(error instanceof Error ? error : new Error(String(error)));
+      dispatch(slot);
+    }
+  };
+
+  const slots: Slot[] = Array.from({ length: size }, () => {
+    const slot: Slot = { worker: new PaletteWorker(), job: null };
+    slot.worker.onmessage = (evt: MessageEvent<PaletteResponse>) => {
+      const msg = evt.data;
+      const job = slot.job;
+      if (!job || job.id !== msg.id) return;
+      if (msg.type === "PALETTE") job.resolve(msg.palette);
+      else job.reject(new Error(msg.message));
+      dispatch(slot);
+    };
+    slot.worker.onerror = (evt) => {
+      evt.preventDefault();
+      slot.job?.reject(new Error(evt.message || "palette worker crashed"));
+      dispatch(slot);
+    };
+    return slot;
+  });
+
+  const extract = (bitmap: ImageBitmap, opts: ExtractOptions) =>
+    new Promise<PaletteColor[]>((resolve, reject) => {
+      queue.push({ id: nextId++, bitmap, opts, resolve, reject });
+      const idle = slots.find((s) => !s.job);
+      if (idle) dispatch(idle);
+    });
+
+  const terminate = () => {
+    slots.forEach((slot) => {
+      slot.worker.terminate();
+      slot.job?.reject(new Error("extraction pool terminated"));
+      slot.job = null;
+    });
+    queue.splice(0).forEach((job) => job.reject(new Error("extraction pool terminated")));
+  };
+
+  return { size, extract, terminate };
+}
@@ -0,0 +1,11 @@
+import { Channels, extract } from "colorgram";
+import type { PaletteExtractor } from "./types";
+
+type ColorgramStat = [number, number, number, number];
+
+// colorgram's dominant colors; entries come back shaped like [r, g, b, proportion]
+export const colorgramExtractor: PaletteExtractor = (pixels, kColors) => {
+  const pixelData = new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.byteLength);
+  const stats = extract({ data: pixelData, channels: Channels.RGBAlpha }, kColors) as ColorgramStat[];
+  return stats.map(([r, g, b, proportion]) => ({ rgb: [r, g, b], proportion }));
+};
@@ -0,0 +1,13 @@
+import type { ExtractorKind } from "../../types";
+import { colorgramExtractor } from "./colorgram";
+import { kmeansLabExtractor } from "./kmeansLab";
+import { medianCutExtractor } from "./medianCut";
+import type { PaletteExtractor } from "./types";
+
+export type { PaletteExtractor } from "./types";
+
+export const EXTRACTORS: Record<ExtractorKind, PaletteExtractor> = {
+  colorgram: colorgramExtractor,
+  "median-cut": medianCutExtractor,
+  "kmeans-lab": kmeansLabExtractor,
+};
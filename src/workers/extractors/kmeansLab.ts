@@ -0,0 +1,94 @@
+import { deltaE76Sq, rgbToLab, type Lab } from "../colorSpace";
+import type { PaletteColor } from "../palette";
+import { lcg } from "../random";
+import type { PaletteExtractor } from "./types";
+
+// pixels clustered per image; evenly strided so large analysis sizes stay fast
+const SAMPLE_MAX = 20000;
+const MAX_ITER = 24;
+// a fixed seed keeps palettes stable between runs, which the persistent cache relies on
+const SEED = 0x2545f491;
+
+// k-means++ seeding: each next center is picked with probability proportional to its
+// squared distance from the nearest center chosen so far
+function seedCenters(points: Lab[], k: number, rand: () => number) {
+  const centers: Lab[] = [points[Math.floor(rand() * points.length)]];
+  const nearest = points.map((p) => deltaE76Sq(p, centers[0]));
+  while (centers.length < k) {
+    const sum = nearest.reduce((s, d) => s + d, 0);
+    if (sum === 0) break;
+    let pick = rand() * sum;
+    let i = 0;
+    while (i < points.length - 1 && pick >= nearest[i]) pick -= nearest[i++];
+    const center = points[i];
+    centers.push(center);
+    points.forEach((p, j) => {
+      nearest[j] = Math.min(nearest[j], deltaE76Sq(p, center));
+    });
+  }
+  return centers;
+}
+
+// Lloyd's k-means on CIELAB pixels; palette colors are the mean sRGB of each cluster
+export const kmeansLabExtractor: PaletteExtractor = (data, kColors) => {
+  const pixelCount = data.length / 4;
+  if (!pixelCount) return [];
+  const stride = Math.max(1, Math.floor(pixelCount / SAMPLE_MAX));
+  const rgbs: [number, number, number][] = [];
+  for (let p = 0; p < pixelCount; p += stride) {
+    rgbs.push([data[p * 4], data[p * 4 + 1], data[p * 4 + 2]]);
+  }
+  const points = rgbs.map((rgb) => rgbToLab(rgb));
+
+  let centers = seedCenters(points, Math.min(kColors, points.length), lcg(SEED));
+  const assign = new Int32Array(points.length).fill(-1);
+  for (let iter = 0; iter < MAX_ITER; iter++) {
+    let changed = false;
+    points.forEach((p, i) => {
+      let best = 0;
+      let bestD = Infinity;
+      centers.forEach((c, j) => {
+        const d = deltaE76Sq(p, c);
+        if (d < bestD) {
+          bestD = d;
+          best = j;
+        }
+      });
+      if (assign[i] !== best) {
+        assign[i] = best;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    points.forEach((p, i) => {
+      const s = sums[assign[i]];
+      s[0] += p[0];
+      s[1] += p[1];
+      s[2] += p[2];
+      s[3]++;
+    });
+    // an emptied cluster keeps its old center
+    centers = centers.map((c, j) => {
+      const [l, a, b, n] = sums[j];
+      return n ? [l / n, a / n, b / n] : c;
+    });
+  }
+
+  const totals = centers.map(() => [0, 0, 0, 0]);
+  rgbs.forEach((rgb, i) => {
+    const t = totals[assign[i]];
+    t[0] += rgb[0];
+    t[1] += rgb[1];
+    t[2] += rgb[2];
+    t[3]++;
+  });
+  const palette: PaletteColor[] = totals
+    .filter(([, , , n]) => n > 0)
+    .map(([r, g, b, n]) => ({
+      rgb: [Math.round(r / n), Math.round(g / n), Math.round(b / n)],
+      proportion: n / rgbs.length,
+    }));
+  return palette.sort((a, b) => b.proportion - a.proportion);
+};
@@ -0,0 +1,100 @@
+import type { PaletteColor } from "../palette";
+import type { PaletteExtractor } from "./types";
+
+// 5 bits per channel: a 32³ histogram, as in the classic median-cut quantizer
+const SIGBITS = 5;
+const SHIFT = 8 - SIGBITS;
+const SIDE = 1 << SIGBITS;
+
+type Box = { lo: [number, number, number]; hi: [number, number, number]; count: number };
+
+const binIndex = (r: number, g: number, b: number) => (r << (2 * SIGBITS)) | (g << SIGBITS) | b;
+
+function forEachBin(box: Box, fn: (bin: number, r: number, g: number, b: number) => void) {
+  for (let r = box.lo[0]; r <= box.hi[0]; r++) {
+    for (let g = box.lo[1]; g <= box.hi[1]; g++) {
+      for (let b = box.lo[2]; b <= box.hi[2]; b++) fn(binIndex(r, g, b), r, g, b);
+    }
+  }
+}
+
+// tighten a box to the bins that actually hold pixels
+function shrink(box: Box, hist: Uint32Array): Box {
+  const lo: [number, number, number] = [SIDE, SIDE, SIDE];
+  const hi: [number, number, number] = [-1, -1, -1];
+  let count = 0;
+  forEachBin(box, (bin, r, g, b) => {
+    const n = hist[bin];
+    if (!n) return;
+    count += n;
+    const at = [r, g, b];
+    for (let c = 0; c < 3; c++) {
+      lo[c] = Math.min(lo[c], at[c]);
+      hi[c] = Math.max(hi[c], at[c]);
+    }
+  });
+  return { lo, hi, count };
+}
+
+// split along the widest channel at the plane holding the median pixel
+function split(box: Box, hist: Uint32Array): [Box, Box] | null {
+  const widths = box.hi.map((h, c) => h - box.lo[c]);
+  const axis = widths.indexOf(Math.max(...widths));
+  if (widths[axis] === 0) return null;
+
+  const planes = new Array<number>(widths[axis] + 1).fill(0);
+  forEachBin(box, (bin, r, g, b) => {
+    planes[[r, g, b][axis] - box.lo[axis]] += hist[bin];
+  });
+  let acc = 0;
+  let cut = 0;
+  // the last plane always stays on the upper side so both halves are non-empty
+  while (cut < planes.length - 2 && acc + planes[cut] < box.count / 2) acc += planes[cut++];
+
+  const leftHi: [number, number, number] = [...box.hi];
+  const rightLo: [number, number, number] = [...box.lo];
+  leftHi[axis] = box.lo[axis] + cut;
+  rightLo[axis] = box.lo[axis] + cut + 1;
+  return [
+    shrink({ lo: box.lo, hi: leftHi, count: 0 }, hist),
+    shrink({ lo: rightLo, hi: box.hi, count: 0 }, hist),
+  ];
+}
+
+export const medianCutExtractor: PaletteExtractor = (data, kColors) => {
+  const hist = new Uint32Array(SIDE ** 3);
+  // exact channel sums per bin, so each box reports its true mean color
+  const sums = new Float64Array(SIDE ** 3 * 3);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const bin = binIndex(data[i] >> SHIFT, data[i + 1] >> SHIFT, data[i + 2] >> SHIFT);
+    hist[bin]++;
+    sums[bin * 3] += data[i];
+    sums[bin * 3 + 1] += data[i + 1];
+    sums[bin * 3 + 2] += data[i + 2];
+    total++;
+  }
+  if (!total) return [];
+
+  const boxes = [shrink({ lo: [0, 0, 0], hi: [SIDE - 1, SIDE - 1, SIDE - 1], count: 0 }, hist)];
+  while (boxes.length < kColors) {
+    // most populated box that can still be divided
+    const order = boxes.map((_, i) => i).sort((a, b) => boxes[b].count - boxes[a].count);
+    const target = order.find((i) => boxes[i].hi.some((h, c) => h > boxes[i].lo[c]));
+    if (target === undefined) break;
+    const halves = split(boxes[target], hist)!;
+    boxes.splice(target, 1, ...halves);
+  }
+
+  const palette: PaletteColor[] = boxes.map((box) => {
+    const rgb: [number, number, number] = [0, 0, 0];
+    forEachBin(box, (bin) => {
+      for (let c = 0; c < 3; c++) rgb[c] += sums[bin * 3 + c];
+    });
+    return {
+      rgb: rgb.map((v) => Math.round(v / box.count)) as [number, number, number],
+      proportion: box.count / total,
+    };
+  });
+  return palette.sort((a, b) => b.proportion - a.proportion);
+};
@@ -0,0 +1,6 @@
+import type { PaletteColor } from "../palette";
+
+// Turns downscaled, filtered RGBA pixels (packed, no row layout) into at most `kColors`
+// colors with proportions. extractPalette validates the output, so implementations
+// may return raw values.
+export type PaletteExtractor = (pixels: Uint8ClampedArray, kColors: number) => PaletteColor[];
@@ -0,0 +1,151 @@
+// Minimal EXIF reader: pulls capture date and camera fields out of the TIFF block
+// embedded in JPEG (APP1), PNG (eXIf) and WebP (EXIF) files.
+
+export type ExifFields = {
+  takenAt?: string;
+  cameraMake?: string;
+  cameraModel?: string;
+};
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+
+// metadata lives near the start of the file; no need to read whole images
+export const EXIF_SCAN_BYTES = 256 * 1024;
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  let out = "";
+  for (let i = start; i < end; i++) out += String.fromCharCode(bytes[i]);
+  return out;
+}
+
+function findJpegTiff(bytes: Uint8Array) {
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // start of scan: no more metadata segments
+    if (marker === 0xda) return null;
+    const size = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && ascii(bytes, offset + 4, offset + 10) === "Exif\0\0") {
+      return { start: offset + 10, end: Math.min(bytes.length, offset + 2 + size) };
+    }
+    offset += 2 + size;
+  }
+  return null;
+}
+
+function findPngTiff(bytes: Uint8Array, view: DataView) {
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, offset + 8);
+    if (type === "eXIf") {
+      return { start: offset + 8, end: Math.min(bytes.length, offset + 8 + size) };
+    }
+    if (type === "IDAT" || type === "IEND") return null;
+    offset += 12 + size;
+  }
+  return null;
+}
+
+function findWebpTiff(bytes: Uint8Array, view: DataView) {
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, offset + 4);
+    const size = view.getUint32(offset + 4, true);
+    if (type === "EXIF") {
+      let start = offset + 8;
+      // some encoders keep the JPEG-style "Exif\0\0" prefix inside the chunk
+      if (ascii(bytes, start, start + 6) === "Exif\0\0") start += 6;
+      return { start, end: Math.min(bytes.length, offset + 8 + size) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function findTiffBlock(bytes: Uint8Array, view: DataView) {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return findJpegTiff(bytes);
+  if (ascii(bytes, 1, 4) === "PNG") return findPngTiff(bytes, view);
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") {
+    return findWebpTiff(bytes, view);
+  }
+  return null;
+}
+
+type IfdEntry = { tag: number; type: number; count: number; valueOffset: number };
+
+function readIfd(view: DataView, tiffStart: number, tiffEnd: number, ifdOffset: number, little: boolean) {
+  const entries: IfdEntry[] = [];
+  const base = tiffStart + ifdOffset;
+  if (base + 2 > tiffEnd) return entries;
+  const count = view.getUint16(base, little);
+  for (let i = 0; i < count; i++) {
+    const at = base + 2 + i * 12;
+    if (at + 12 > tiffEnd) break;
+    entries.push({
+      tag: view.getUint16(at, little),
+      type: view.getUint16(at + 2, little),
+      count: view.getUint32(at + 4, little),
+      // values of 4 bytes or fewer are stored inline; keep the entry position for those
+      valueOffset: at + 8,
+    });
+  }
+  return entries;
+}
+
+function readAscii(bytes: Uint8Array, view: DataView, tiffStart: number, tiffEnd: number, e: IfdEntry, little: boolean) {
+  if (e.type !== TYPE_ASCII || e.count === 0) return undefined;
+  const start = e.count <= 4 ? e.valueOffset : tiffStart + view.getUint32(e.valueOffset, little);
+  const end = Math.min(tiffEnd, start + e.count);
+  if (start >= end) return undefined;
+  const text = ascii(bytes, start, end).replace(/\0+$/, "").trim();
+  return text || undefined;
+}
+
+// EXIF dates look like "2021:07:14 18:02:33"; turn them into ISO-ish local time strings
+function normalizeExifDate(raw: string | undefined) {
+  if (!raw) return undefined;
+  const m = raw.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!m || m[1] === "0000") return undefined;
+  return `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}`;
+}
+
+export function readExif(buffer: ArrayBuffer): ExifFields {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < 16) return {};
+  const view = new DataView(buffer);
+  const block = findTiffBlock(bytes, view);
+  if (!block || block.end - block.start < 8) return {};
+
+  const { start, end } = block;
+  const order = ascii(bytes, start, start + 2);
+  if (order !== "II" && order !== "MM") return {};
+  const little = order === "II";
+  if (view.getUint16(start + 2, little) !== 42) return {};
+
+  const fields: ExifFields = {};
+  let dateTime: string | undefined;
+  let dateTimeOriginal: string | undefined;
+
+  const ifd0 = readIfd(view, start, end, view.getUint32(start + 4, little), little);
+  for (const e of ifd0) {
+    if (e.tag === TAG_MAKE) fields.cameraMake = readAscii(bytes, view, start, end, e, little);
+    if (e.tag === TAG_MODEL) fields.cameraModel = readAscii(bytes, view, start, end, e, little);
+    if (e.tag === TAG_DATETIME) dateTime = readAscii(bytes, view, start, end, e, little);
+    if (e.tag === TAG_EXIF_IFD && e.type === TYPE_LONG) {
+      const sub = readIfd(view, start, end, view.getUint32(e.valueOffset, little), little);
+      const original = sub.find((s) => s.tag === TAG_DATETIME_ORIGINAL);
+      if (original) dateTimeOriginal = readAscii(bytes, view, start, end, original, little);
+    }
+  }
+
+  fields.takenAt = normalizeExifDate(dateTimeOriginal) ?? normalizeExifDate(dateTime);
+  return fields;
+}
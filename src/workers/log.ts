@@ -0,0 +1,15 @@
+export function workerLogger(tag: string) {
+  const logInfo = (message: string, data?: unknown) => {
+    if (data !== undefined) {
+      console.info(`${tag} ${message}`, data);
+    } else {
+      console.info(`${tag} ${message}`);
+    }
+  };
+
+  const logError = (message: string, error: unknown) => {
+    console.error(`${tag} ${message}`, error);
+  };
+
+  return { logInfo, logError };
+}
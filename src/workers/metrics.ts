@@ -0,0 +1,209 @@
+import type { DistanceMetric } from "../types";
+import type { Tick } from "./cancel";
+
+// masses below this count as empty when moving earth
+const EMD_EPSILON = 1e-9;
+const RGB_DIAGONAL = 255 * Math.sqrt(3);
+
+// Pairwise costs between histogram bins, scaled to [0, 1]. `bins` is the length of one
+// histogram. Vectors made of several histograms (grid cells, mixed layers) pass one
+// ground distance per block, in order, and are compared block by block.
+export type GroundDistance = { bins: number; cost: Float64Array };
+
+export function groundDistance(colors: [number, number, number][]): GroundDistance {
+  const bins = colors.length;
+  const cost = new Float64Array(bins * bins);
+  for (let i = 0; i < bins; i++) {
+    for (let j = i + 1; j < bins; j++) {
+      const dr = colors[i][0] - colors[j][0];
+      const dg = colors[i][1] - colors[j][1];
+      const db = colors[i][2] - colors[j][2];
+      cost[i * bins + j] = cost[j * bins + i] = Math.sqrt(dr * dr + dg * dg + db * db) / RGB_DIAGONAL;
+    }
+  }
+  return { bins, cost };
+}
+
+// index of pair (i, j), i < j, in a condensed upper-triangle distance matrix
+export const pairIndex = (n: number, i: number, j: number) => i * n - (i * (i + 1)) / 2 + (j - i - 1);
+
+// Distances between every pair of items, condensed; `at` reads either triangle.
+export type DistanceMatrix = { n: number; values: Float64Array; at: (i: number, j: number) => number };
+
+export function distanceMatrix(n: number, values: Float64Array): DistanceMatrix {
+  return {
+    n,
+    values,
+    at: (i, j) => (i === j ? 0 : i < j ? values[pairIndex(n, i, j)] : values[pairIndex(n, j, i)]),
+  };
+}
+
+// Hellinger as the Euclidean distance between square roots, unnormalized (0..√2) so
+// the eps scale matches the sqrt embedding k-means and Ward work in.
+function hellinger(p: Float32Array, q: Float32Array) {
+  let s = 0;
+  for (let i = 0; i < p.length; i++) {
+    const d = Math.sqrt(p[i]) - Math.sqrt(q[i]);
+    s += d * d;
+  }
+  return Math.sqrt(s);
+}
+
+// Jensen–Shannon distance: square root of the divergence in bits, 0..1
+function jensenShannon(p: Float32Array, q: Float32Array) {
+  let s = 0;
+  for (let i = 0; i < p.length; i++) {
+    const m = (p[i] + q[i]) / 2;
+    if (p[i] > 0) s += p[i] * Math.log2(p[i] / m);
+    if (q[i] > 0) s += q[i] * Math.log2(q[i] / m);
+  }
+  return Math.sqrt(Math.max(0, s / 2));
+}
+
+// symmetric chi-squared distance, 0..1
+function chiSquared(p: Float32Array, q: Float32Array) {
+  let s = 0;
+  for (let i = 0; i < p.length; i++) {
+    const sum = p[i] + q[i];
+    if (sum > 0) s += ((p[i] - q[i]) * (p[i] - q[i])) / sum;
+  }
+  return s / 2;
+}
+
+// Earth mover's distance between two sparse histograms, solved exactly as a min-cost
+// flow by successive shortest paths. Palettes only cover a handful of bins, so the
+// flow network stays tiny however large the taxonomy is. Mass that cannot be matched
+// (an empty grid cell, say) is charged a full unit of ground distance, as in EMD-hat.
+function emdBlock(p: Float32Array, q: Float32Array, offset: number, ground: GroundDistance) {
+  const { bins, cost } = ground;
+  const from: number[] = [];
+  const to: number[] = [];
+  for (let i = 0; i < bins; i++) {
+    if (p[offset + i] > EMD_EPSILON) from.push(i);
+    if (q[offset + i] > EMD_EPSILON) to.push(i);
+  }
+  const supply = from.map((i) => p[offset + i]);
+  const demand = to.map((j) => q[offset + j]);
+  const massP = supply.reduce((s, v) => s + v, 0);
+  const massQ = demand.reduce((s, v) => s + v, 0);
+  const unmatched = Math.abs(massP - massQ);
+  if (!from.length || !to.length) return unmatched;
+
+  const m = from.length;
+  const n = to.length;
+  const c = (a: number, b: number) => cost[from[a] * bins + to[b]];
+  const flow = new Float64Array(m * n);
+  // nodes 0..m-1 are sources, m..m+n-1 sinks; potentials keep reduced costs non-negative
+  const potential = new Float64Array(m + n);
+  const dist = new Float64Array(m + n);
+  const prev = new Int32Array(m + n);
+  const done = new Uint8Array(m + n);
+  let moved = 0;
+  let total = 0;
+  const target = Math.min(massP, massQ);
+
+  while (target - moved > EMD_EPSILON) {
+    dist.fill(Infinity);
+    prev.fill(-1);
+    done.fill(0);
+    for (let a = 0; a < m; a++) if (supply[a] > EMD_EPSILON) dist[a] = 0;
+    // dense Dijkstra over the residual graph; settled nodes are never relaxed again, so
+    // rounding in the reduced costs cannot loop the path
+    for (;;) {
+      let v = -1;
+      for (let u = 0; u < m + n; u++) if (!done[u] && dist[u] < Infinity && (v < 0 || dist[u] < dist[v])) v = u;
+      if (v < 0) break;
+      done[v] = 1;
+      if (v < m) {
+        for (let b = 0; b < n; b++) {
+          if (done[m + b]) continue;
+          const d = dist[v] + c(v, b) + potential[v] - potential[m + b];
+          if (d < dist[m + b]) {
+            dist[m + b] = d;
+            prev[m + b] = v;
+          }
+        }
+      } else {
+        const b = v - m;
+        for (let a = 0; a < m; a++) {
+          if (done[a] || flow[a * n + b] <= EMD_EPSILON) continue;
+          const d = dist[v] - c(a, b) + potential[v] - potential[a];
+          if (d < dist[a]) {
+            dist[a] = d;
+            prev[a] = v;
+          }
+        }
+      }
+    }
+
+    let sink = -1;
+    for (let b = 0; b < n; b++) {
+      if (demand[b] > EMD_EPSILON && dist[m + b] < Infinity && (sink < 0 || dist[m + b] < dist[sink])) sink = m + b;
+    }
+    if (sink < 0) break;
+    for (let u = 0; u < m + n; u++) potential[u] += Math.min(dist[u], dist[sink]);
+
+    // bottleneck along the path back to its source
+    let amount = demand[sink - m];
+    let v = sink;
+    while (prev[v] >= 0) {
+      const u = prev[v];
+      if (u >= m) amount = Math.min(amount, flow[v * n + (u - m)]);
+      v = u;
+    }
+    amount = Math.min(amount, supply[v]);
+
+    supply[v] -= amount;
+    demand[sink - m] -= amount;
+    v = sink;
+    while (prev[v] >= 0) {
+      const u = prev[v];
+      if (u < m) {
+        flow[u * n + (v - m)] += amount;
+        total += amount * c(u, v - m);
+      } else {
+        flow[v * n + (u - m)] -= amount;
+        total -= amount * c(v, u - m);
+      }
+      v = u;
+    }
+    moved += amount;
+  }
+  return total + unmatched;
+}
+
+function emd(p: Float32Array, q: Float32Array, ground: GroundDistance[]) {
+  let s = 0;
+  let offset = 0;
+  for (const block of ground) {
+    s += emdBlock(p, q, offset, block);
+    offset += block.bins;
+  }
+  return s;
+}
+
+export function metricDistance(metric: DistanceMetric, ground: GroundDistance[] | null) {
+  if (metric === "jensen-shannon") return jensenShannon;
+  if (metric === "chi-squared") return chiSquared;
+  if (metric === "emd") {
+    if (!ground) throw new Error("EMD needs a ground distance");
+    return (p: Float32Array, q: Float32Array) => emd(p, q, ground);
+  }
+  return hellinger;
+}
+
+export async function pairwiseDistances(
+  vecs: Float32Array[],
+  metric: DistanceMetric,
+  ground: GroundDistance[] | null,
+  tick: Tick
+) {
+  const n = vecs.length;
+  const distance = metricDistance(metric, ground);
+  const values = new Float64Array((n * (n - 1)) / 2);
+  for (let i = 0; i < n; i++) {
+    await tick();
+    for (let j = i + 1; j < n; j++) values[pairIndex(n, i, j)] = distance(vecs[i], vecs[j]);
+  }
+  return distanceMatrix(n, values);
+}
@@ -0,0 +1,110 @@
+/// <reference lib="webworker" />
+
+import type { ExtractorKind, PixelFilter } from "../types";
+import { EXTRACTORS } from "./extractors";
+import { workerLogger } from "./log";
+import { filterPixels, type FilteredPixels } from "./preprocess";
+
+export type PaletteColor = {
+  rgb: [number, number, number];
+  proportion: number;
+  // share of each layout grid cell (row-major) whose pixels are nearest to this color
+  cells?: number[];
+};
+
+export type ExtractOptions = {
+  kColors: number;
+  // longest edge in px the image is downscaled to before extraction; 0 keeps full resolution
+  maxEdge: number;
+  extractor: ExtractorKind;
+  pixelFilter: PixelFilter;
+};
+
+// the color layout splits each image into LAYOUT_GRID x LAYOUT_GRID cells
+export const LAYOUT_GRID = 3;
+export const LAYOUT_CELLS = LAYOUT_GRID * LAYOUT_GRID;
+// pixels assigned per image when measuring the layout; evenly strided
+const LAYOUT_SAMPLE_MAX = 50000;
+
+const { logError } = workerLogger("[palette]");
+
+async function bitmapToImageData(bmp: ImageBitmap, maxEdge: number) {
+  const longest = Math.max(bmp.width, bmp.height);
+  const scale = maxEdge > 0 && longest > maxEdge ? maxEdge / longest : 1;
+  const width = Math.max(1, Math.round(bmp.width * scale));
+  const height = Math.max(1, Math.round(bmp.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d")!;
+  ctx.imageSmoothingQuality = "medium";
+  ctx.drawImage(bmp, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+// Assigns (a sample of) the kept pixels to their nearest palette color and records, per
+// grid cell, how much of the cell each color covers. Cells with no kept pixels stay 0.
+function measureLayout(image: ImageData, filtered: FilteredPixels, palette: PaletteColor[]) {
+  if (!palette.length) return;
+  const { width, height } = image;
+  const { pixels, index } = filtered;
+  const n = pixels.length / 4;
+  const stride = Math.max(1, Math.floor(n / LAYOUT_SAMPLE_MAX));
+  const counts = palette.map(() => new Array<number>(LAYOUT_CELLS).fill(0));
+  const cellTotals = new Array<number>(LAYOUT_CELLS).fill(0);
+  for (let i = 0; i < n; i += stride) {
+    const r = pixels[i * 4];
+    const g = pixels[i * 4 + 1];
+    const b = pixels[i * 4 + 2];
+    let best = 0;
+    let bestD = Infinity;
+    palette.forEach((c, j) => {
+      const d = (c.rgb[0] - r) ** 2 + (c.rgb[1] - g) ** 2 + (c.rgb[2] - b) ** 2;
+      if (d < bestD) {
+        bestD = d;
+        best = j;
+      }
+    });
+    const p = index ? index[i] : i;
+    const cx = Math.min(LAYOUT_GRID - 1, Math.floor(((p % width) * LAYOUT_GRID) / width));
+    const cy = Math.min(LAYOUT_GRID - 1, Math.floor((Math.floor(p / width) * LAYOUT_GRID) / height));
+    const cell = cy * LAYOUT_GRID + cx;
+    counts[best][cell]++;
+    cellTotals[cell]++;
+  }
+  palette.forEach((c, j) => {
+    c.cells = counts[j].map((count, cell) => (cellTotals[cell] ? count / cellTotals[cell] : 0));
+  });
+}
+
+export async function extractPalette(
+  bmp: ImageBitmap,
+  opts: ExtractOptions
+): Promise<PaletteColor[]> {
+  const image = await bitmapToImageData(bmp, opts.maxEdge);
+  const filtered = filterPixels(image, opts.pixelFilter);
+  const stats = EXTRACTORS[opts.extractor](filtered.pixels, opts.kColors);
+
+  const palette: PaletteColor[] = [];
+  for (const entry of stats) {
+    const [r, g, b] = entry?.rgb ?? [];
+    const p = entry?.proportion;
+    if ([r, g, b].some((v) => typeof v !== "number" || Number.isNaN(v))) {
+      logError("dropping invalid palette entry", entry);
+      continue;
+    }
+    palette.push({
+      rgb: [r ?? 0, g ?? 0, b ?? 0],
+      proportion: typeof p === "number" && Number.isFinite(p) ? p : 0,
+    });
+  }
+
+  if (palette.length === 0) {
+    logError("no palette colors extracted", {
+      width: bmp.width,
+      height: bmp.height,
+    });
+  }
+
+  measureLayout(image, filtered, palette);
+  return palette;
+}
+
@@ -0,0 +1,24 @@
+/// <reference lib="webworker" />
+
+import { extractPalette, type ExtractOptions, type PaletteColor } from "./palette";
+
+export type PaletteRequest = { type: "EXTRACT"; id: number; bitmap: ImageBitmap; opts: ExtractOptions };
+
+export type PaletteResponse =
+  | { type: "PALETTE"; id: number; palette: PaletteColor[] }
+  | { type: "EXTRACT_FAILED"; id: number; message: string };
+
+self.onmessage = async (evt: MessageEvent<PaletteRequest>) => {
+  const msg = evt.data;
+  if (msg.type !== "EXTRACT") return;
+  try {
+    const palette = await extractPalette(msg.bitmap, msg.opts);
+    (self as any).postMessage({ type: "PALETTE", id: msg.id, palette } satisfies PaletteResponse);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    (self as any).postMessage({ type: "EXTRACT_FAILED", id: msg.id, message } satisfies PaletteResponse);
+  } finally {
+    // the bitmap is a copy made for this job; release it right away
+    msg.bitmap.close();
+  }
+};
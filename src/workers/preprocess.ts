@@ -0,0 +1,126 @@
+import type { PixelFilter } from "../types";
+import { workerLogger } from "./log";
+
+// share of the shorter edge sampled as the border ring
+const BORDER_RING = 0.03;
+// max per-channel difference from the border color that still counts as background
+const BORDER_TOLERANCE = 24;
+// share of the ring that must match its median color for the border to count as uniform
+const BORDER_UNIFORM_MIN = 0.6;
+// weight left at the corners when center weighting is on
+const CENTER_EDGE_WEIGHT = 0.2;
+// 4x4 Bayer thresholds; ordered dithering turns weights into a deterministic subset
+const BAYER_4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map((v) => (v + 0.5) / 16);
+
+const { logInfo } = workerLogger("[preprocess]");
+
+export function pixelFilterCode(filter: PixelFilter) {
+  const flags = [filter.ignoreTransparent && "a", filter.dropBorder && "b", filter.centerWeight && "c"];
+  return flags.filter(Boolean).join("") || "-";
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[sorted.length >> 1];
+};
+
+// Median color of the outer ring, if enough of the ring shares it to call it a backdrop.
+function uniformBorderColor(image: ImageData, opaque: (p: number) => boolean) {
+  const { width, height, data } = image;
+  const ring = Math.max(1, Math.round(Math.min(width, height) * BORDER_RING));
+  const ringPixels: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inRing = y < ring || y >= height - ring || x < ring || x >= width - ring;
+      if (inRing && opaque(y * width + x)) ringPixels.push(y * width + x);
+    }
+  }
+  if (!ringPixels.length) return null;
+  const color = [0, 1, 2].map((c) => median(ringPixels.map((p) => data[p * 4 + c])));
+  const matching = ringPixels.filter((p) => matchesColor(data, p, color)).length;
+  return matching / ringPixels.length >= BORDER_UNIFORM_MIN ? color : null;
+}
+
+const matchesColor = (data: Uint8ClampedArray, p: number, color: number[]) =>
+  Math.abs(data[p * 4] - color[0]) <= BORDER_TOLERANCE &&
+  Math.abs(data[p * 4 + 1] - color[1]) <= BORDER_TOLERANCE &&
+  Math.abs(data[p * 4 + 2] - color[2]) <= BORDER_TOLERANCE;
+
+// Marks the background: pixels of the border color reachable from the edges. Flooding
+// from the edges keeps same-colored areas inside the subject (a white shirt on white).
+function floodBorder(image: ImageData, color: number[], opaque: (p: number) => boolean) {
+  const { width, height, data } = image;
+  const background = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+  const visit = (p: number) => {
+    if (background[p] || !opaque(p) || !matchesColor(data, p, color)) return;
+    background[p] = 1;
+    queue[tail++] = p;
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < (height - 1) * width) visit(p + width);
+  }
+  return background;
+}
+
+// kept pixels as packed RGBA; `index` maps each back to its position in the image,
+// or is null when every pixel was kept in order
+export type FilteredPixels = { pixels: Uint8ClampedArray; index: Uint32Array | null };
+
+// Applies the pixel filter. Fractional weights (partial alpha, center falloff) are
+// realized by ordered dithering, so every extractor sees a plain pixel list and the
+// result stays identical between runs.
+export function filterPixels(image: ImageData, filter: PixelFilter): FilteredPixels {
+  const { width, height, data } = image;
+  const everything = { pixels: data, index: null };
+  if (!filter.ignoreTransparent && !filter.dropBorder && !filter.centerWeight) return everything;
+
+  const opaque = (p: number) => !filter.ignoreTransparent || data[p * 4 + 3] > 0;
+  const borderColor = filter.dropBorder ? uniformBorderColor(image, opaque) : null;
+  const background = borderColor ? floodBorder(image, borderColor, opaque) : null;
+
+  const kept = new Uint8ClampedArray(data.length);
+  const index = new Uint32Array(width * height);
+  let n = 0;
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (background?.[p]) continue;
+      let weight = filter.ignoreTransparent ? data[p * 4 + 3] / 255 : 1;
+      if (filter.centerWeight) {
+        // squared distance from the center, scaled so the corners reach 1
+        const dx = cx ? (x - cx) / cx : 0;
+        const dy = cy ? (y - cy) / cy : 0;
+        const r2 = Math.min(1, (dx * dx + dy * dy) / 2);
+        weight *= 1 - (1 - CENTER_EDGE_WEIGHT) * r2;
+      }
+      if (weight < 1 && weight <= BAYER_4[(y & 3) * 4 + (x & 3)]) continue;
+      kept.set(data.subarray(p * 4, p * 4 + 4), n * 4);
+      index[n++] = p;
+    }
+  }
+
+  // a plain backdrop-colored image (or a fully transparent one) would leave nothing
+  if (!n) {
+    logInfo("pixel filter removed every pixel; using the whole image", { width, height });
+    return everything;
+  }
+  return { pixels: kept.subarray(0, n * 4), index: index.subarray(0, n) };
+}
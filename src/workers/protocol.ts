@@ -0,0 +1,153 @@
+// Message protocol between the UI and clusterWorker. Both sides import these types;
+// the UI talks to the worker through `createWorkerClient` in ../workerClient.ts.
+//
+// Every message carries the protocol version `v` and the id of the request it belongs
+// to. A request gets any number of `event` responses (progress, decoded images) and
+// then exactly one of `result`, `error` or `cancelled`.
+
+import type {
+  ClusterDistribution,
+  ClusterQuality,
+  ClusterRequest,
+  Dendrogram,
+  DistanceMetric,
+  ExtractorKind,
+  HierKey,
+  ImageRecord,
+  MatchSpace,
+  ParamSuggestion,
+  PixelFilter,
+  Reachability,
+  ResolutionReport,
+  SourceFile,
+  TaxonomyFile,
+  TaxonomyInfo,
+  WorkerErrorStage,
+} from "../types";
+
+export const PROTOCOL_VERSION = 1;
+
+export type InitParams = {
+  kColors: number;
+  baseUrl: string;
+  poolSize: number;
+  analysisEdge: number;
+  matchSpace: MatchSpace;
+  excludeNeutral: boolean;
+  pixelFilter: PixelFilter;
+  extractor: ExtractorKind;
+};
+
+export type ExtractResult = { nImages: number };
+
+export type ClusterResult = {
+  // one per requested image: every image, or the `indices` subset in order
+  labels: number[];
+  layer: HierKey;
+  // share of each name per cluster, for every chart layer; whole-set runs only
+  summaries?: Record<HierKey, ClusterDistribution[]>;
+  // agglomerative runs only; the UI re-cuts it without asking the worker again
+  tree?: Dendrogram;
+  // OPTICS runs only, for the reachability plot
+  reachability?: Reachability;
+  // may differ from the requested one when the method needs Euclidean distances
+  metric: DistanceMetric;
+  // whole-set runs only
+  quality?: ClusterQuality;
+  // k-means runs only; sending it back as `seed` repeats the run exactly
+  seed?: number;
+};
+
+export type RequestMap = {
+  INIT: { params: InitParams; result: ExtractResult };
+  LOAD_FILES: { params: { files: SourceFile[] }; result: ExtractResult };
+  REEXTRACT: {
+    params: {
+      kColors?: number;
+      analysisEdge?: number;
+      matchSpace?: MatchSpace;
+      excludeNeutral?: boolean;
+      pixelFilter?: PixelFilter;
+      extractor?: ExtractorKind;
+    };
+    result: ExtractResult;
+  };
+  // no file restores the bundled colornamer.json
+  LOAD_TAXONOMY: { params: { file?: TaxonomyFile }; result: ExtractResult };
+  COMPARE_RESOLUTIONS: { params: ClusterRequest & { edges: number[] }; result: ResolutionReport };
+  // k range for the sweep; DBSCAN ignores it and reads minPts
+  SUGGEST_PARAMS: { params: ClusterRequest & { kMin: number; kMax: number }; result: ParamSuggestion };
+  CLEAR_CACHE: { params: Record<string, never>; result: { entries: number } };
+  RUN_CLUSTER: { params: ClusterRequest; result: ClusterResult };
+  // pie chart data and scores for labels the UI derived itself (a dendrogram cut)
+  SUMMARIZE: { params: { labels: number[] }; result: Pick<ClusterResult, "summaries" | "quality"> };
+  CANCEL: { params: { requestId: number }; result: { cancelled: boolean } };
+};
+
+export type RequestType = keyof RequestMap;
+export type RequestParams<K extends RequestType> = RequestMap[K]["params"];
+export type RequestResult<K extends RequestType> = RequestMap[K]["result"];
+
+export type WorkerRequest = {
+  [K in RequestType]: { v: typeof PROTOCOL_VERSION; id: number; type: K; params: RequestParams<K> };
+}[RequestType];
+
+export type WorkerProgress = { type: "PROGRESS"; phase: string; done: number; total: number };
+
+export type WorkerEvent =
+  | WorkerProgress
+  | { type: "IMAGES"; images: ImageRecord[] }
+  | { type: "TAXONOMY"; taxonomy: TaxonomyInfo };
+
+// what the worker still holds after a failed or cancelled load
+export type WorkerState = { hasImages: boolean; hasDistributions: boolean };
+
+export type WorkerFailure = {
+  stage: WorkerErrorStage;
+  message: string;
+  recoverable: boolean;
+  state: WorkerState;
+};
+
+type Envelope = { v: typeof PROTOCOL_VERSION; id: number };
+
+export type WorkerResponse = Envelope &
+  (
+    | { kind: "event"; event: WorkerEvent }
+    | { kind: "result"; result: unknown }
+    | { kind: "error"; error: WorkerFailure }
+    // `superseded` is set when a newer request of the same kind replaced this one
+    | { kind: "cancelled"; superseded: boolean; state: WorkerState }
+  );
+
+// requests of the same group replace each other: a new RUN_CLUSTER aborts the previous one
+export type RequestGroup = "load" | "cluster" | "subcluster" | "compare" | "suggest" | "summary";
+
+export const REQUEST_GROUPS: Partial<Record<RequestType, RequestGroup>> = {
+  INIT: "load",
+  LOAD_FILES: "load",
+  REEXTRACT: "load",
+  LOAD_TAXONOMY: "load",
+  RUN_CLUSTER: "cluster",
+  COMPARE_RESOLUTIONS: "compare",
+  SUGGEST_PARAMS: "suggest",
+  SUMMARIZE: "summary",
+};
+
+// A RUN_CLUSTER over an index subset drills into one cluster; it replaces earlier
+// drill-downs but runs beside the main clustering.
+export const requestGroup = <K extends RequestType>(type: K, params: RequestParams<K>) =>
+  type === "RUN_CLUSTER" && (params as ClusterRequest).indices ? "subcluster" : REQUEST_GROUPS[type];
+
+export const REQUEST_STAGES: Record<RequestType, WorkerErrorStage> = {
+  INIT: "init",
+  LOAD_FILES: "load",
+  REEXTRACT: "extract",
+  LOAD_TAXONOMY: "taxonomy",
+  COMPARE_RESOLUTIONS: "compare",
+  SUGGEST_PARAMS: "suggest",
+  CLEAR_CACHE: "cache",
+  RUN_CLUSTER: "cluster",
+  SUMMARIZE: "cluster",
+  CANCEL: "worker",
+};
@@ -0,0 +1,119 @@
+import type { ClusterQuality } from "../types";
+import type { Tick } from "./cancel";
+import type { DistanceMatrix } from "./metrics";
+
+// members of each cluster, noise left out
+function clusterMembers(labels: number[]) {
+  const clusters = new Map<number, number[]>();
+  labels.forEach((l, i) => {
+    if (l < 0) return;
+    if (!clusters.has(l)) clusters.set(l, []);
+    clusters.get(l)!.push(i);
+  });
+  return clusters;
+}
+
+// Silhouette of one image: near 1 when it sits well inside its cluster, near 0 on a
+// boundary, negative when another cluster is closer. Noise is NaN, singletons score 0.
+function silhouetteOf(dist: DistanceMatrix, clusters: Map<number, number[]>, labels: number[], i: number) {
+  const own = labels[i];
+  if (own < 0) return NaN;
+  if (clusters.size < 2 || clusters.get(own)!.length < 2) return 0;
+  let a = 0;
+  let b = Infinity;
+  clusters.forEach((idxs, l) => {
+    let sum = 0;
+    for (const j of idxs) sum += dist.at(i, j);
+    if (l === own) a = sum / (idxs.length - 1);
+    else b = Math.min(b, sum / idxs.length);
+  });
+  return (b - a) / Math.max(a, b) || 0;
+}
+
+// silhouette of every image; each row is O(n), so cancellation is checked per row
+export async function silhouetteSamples(dist: DistanceMatrix, labels: number[], tick: Tick) {
+  const clusters = clusterMembers(labels);
+  const samples: number[] = [];
+  for (let i = 0; i < labels.length; i++) {
+    await tick();
+    samples.push(silhouetteOf(dist, clusters, labels, i));
+  }
+  return samples;
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0);
+
+// mean silhouette over clustered images
+export async function silhouette(dist: DistanceMatrix, labels: number[], tick: Tick) {
+  return mean((await silhouetteSamples(dist, labels, tick)).filter((v) => !Number.isNaN(v)));
+}
+
+function centroidOf(data: number[][], idxs: number[]) {
+  const c = new Array<number>(data[idxs[0]].length).fill(0);
+  for (const i of idxs) data[i].forEach((v, d) => (c[d] += v / idxs.length));
+  return c;
+}
+
+const squaredDistance = (a: number[], b: number[]) => a.reduce((s, v, d) => s + (v - b[d]) ** 2, 0);
+
+// within-cluster sum of squared distances to the centroid, noise left out
+export function inertia(data: number[][], labels: number[]) {
+  let total = 0;
+  clusterMembers(labels).forEach((idxs) => {
+    const c = centroidOf(data, idxs);
+    for (const i of idxs) total += squaredDistance(data[i], c);
+  });
+  return total;
+}
+
+// Scores for one partition. Silhouette reads `dist`, the metric the clustering ran on, whose
+// rows are the images in `sample` (every image when null); Davies–Bouldin and
+// Calinski–Harabasz need centroids, so they use the Euclidean `data` of every image.
+// Both are null with fewer than two clusters.
+export async function clusterQuality(
+  dist: DistanceMatrix,
+  sample: number[] | null,
+  data: number[][],
+  labels: number[],
+  tick: Tick
+): Promise<ClusterQuality> {
+  const clusters = clusterMembers(labels);
+  const scored = await silhouetteSamples(dist, sample ? sample.map((i) => labels[i]) : labels, tick);
+  // per image, NaN where the sample left it out
+  const samples = sample ? new Array<number>(labels.length).fill(NaN) : scored;
+  if (sample) sample.forEach((i, j) => (samples[i] = scored[j]));
+  const clustered = labels.filter((l) => l >= 0).length;
+  const perCluster = [...clusters].map(([label, idxs]) => ({
+    label,
+    size: idxs.length,
+    silhouette: mean(idxs.map((i) => samples[i]).filter((v) => !Number.isNaN(v))),
+  }));
+  const quality: ClusterQuality = {
+    silhouette: mean(scored.filter((v) => !Number.isNaN(v))),
+    daviesBouldin: null,
+    calinskiHarabasz: null,
+    noiseRatio: labels.length ? (labels.length - clustered) / labels.length : 0,
+    clusters: perCluster.sort((a, b) => a.label - b.label),
+  };
+  const k = clusters.size;
+  if (k < 2) return quality;
+
+  const groups = [...clusters.values()];
+  const centroids = groups.map((idxs) => centroidOf(data, idxs));
+  // mean distance of members to their centroid
+  const scatter = groups.map(
+    (idxs, c) => idxs.reduce((s, i) => s + Math.sqrt(squaredDistance(data[i], centroids[c])), 0) / idxs.length
+  );
+  // coincident centroids count as 0, as in scikit-learn
+  const similarity = (i: number, j: number) => {
+    const d = Math.sqrt(squaredDistance(centroids[i], centroids[j]));
+    return i !== j && d > 0 ? (scatter[i] + scatter[j]) / d : 0;
+  };
+  quality.daviesBouldin = mean(centroids.map((_, i) => Math.max(...centroids.map((_, j) => similarity(i, j)))));
+
+  const overall = centroidOf(data, groups.flat());
+  const between = groups.reduce((s, idxs, c) => s + idxs.length * squaredDistance(centroids[c], overall), 0);
+  const within = inertia(data, labels);
+  quality.calinskiHarabasz = clustered > k && within > 0 ? (between / (k - 1)) / (within / (clustered - k)) : null;
+  return quality;
+}
@@ -0,0 +1,12 @@
+// Small seeded generator (Numerical Recipes LCG); plenty for picking starting points and
+// reproducible across browsers, unlike Math.random.
+export function lcg(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+// a fresh seed for runs that did not ask for one; reported back so they can be repeated
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
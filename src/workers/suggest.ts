@@ -0,0 +1,76 @@
+import type { KDistanceCurve, KSweepRow } from "../types";
+import { agglomerate, cutDendrogram } from "./agglomerative";
+import type { Tick } from "./cancel";
+import { hellingerEmbed, kmeans, metricFor, type ClusterParams } from "./clustering";
+import { randomSeed } from "./random";
+import { pairwiseDistances, type DistanceMatrix, type GroundDistance } from "./metrics";
+import { inertia, silhouette } from "./quality";
+
+// Distance from every image to its k-th nearest neighbor (itself counted, as DBSCAN's
+// min points does), sorted ascending. Below the knee images sit in dense regions; the
+// distance at the knee is the usual pick for eps.
+export async function kDistanceCurve(dist: DistanceMatrix, k: number, tick: Tick): Promise<KDistanceCurve> {
+  const { n } = dist;
+  const rank = Math.min(n, Math.max(1, k)) - 1;
+  const row = new Float64Array(n);
+  const distances: number[] = [];
+  for (let i = 0; i < n; i++) {
+    await tick();
+    for (let j = 0; j < n; j++) row[j] = dist.at(i, j);
+    distances.push(row.sort()[rank]);
+  }
+  distances.sort((a, b) => a - b);
+  return { k, distances, knee: kneeIndex(distances) };
+}
+
+// Kneedle on an increasing curve: the point furthest below the chord from the first
+// point to the last, with both axes scaled to [0, 1].
+function kneeIndex(values: number[]) {
+  const n = values.length;
+  if (n < 3) return n - 1;
+  const lo = values[0];
+  const span = values[n - 1] - lo || 1;
+  let best = n - 1;
+  let bestGap = 0;
+  values.forEach((v, i) => {
+    const gap = i / (n - 1) - (v - lo) / span;
+    if (gap > bestGap) {
+      bestGap = gap;
+      best = i;
+    }
+  });
+  return best;
+}
+
+// Silhouette and inertia for every k in [kMin, kMax]. Agglomerative builds its tree once
+// and cuts it per k; k-means runs afresh for each and scores its silhouette on `sample`
+// alone, as a clustering run does. Inertia is measured in the Hellinger embedding
+// whatever the metric, since it needs centroids.
+export async function sweepK(
+  vecs: Float32Array[],
+  params: ClusterParams,
+  ground: GroundDistance[] | null,
+  sample: number[],
+  kMin: number,
+  kMax: number,
+  tick: Tick,
+  progress: (done: number, total: number) => void
+): Promise<KSweepRow[]> {
+  const data = hellingerEmbed(vecs);
+  // only the tree needs every pairwise distance
+  const full = params.method === "agglomerative";
+  const dist = await pairwiseDistances(full ? vecs : sample.map((i) => vecs[i]), metricFor(params), ground, tick);
+  const tree = full ? await agglomerate(dist, params.linkage, tick) : null;
+  // one seed for the whole sweep so neighboring k differ by k alone
+  const opts = { seed: params.seed ?? randomSeed(), restarts: params.restarts, maxIter: params.maxIter };
+  const last = Math.min(kMax, vecs.length - 1);
+  const rows: KSweepRow[] = [];
+  for (let k = kMin; k <= last; k++) {
+    progress(k - kMin, last - kMin + 1);
+    const labels = tree ? cutDendrogram(tree, k) : (await kmeans(data, k, opts, tick)).labels;
+    await tick();
+    const scored = tree ? labels : sample.map((i) => labels[i]);
+    rows.push({ k, silhouette: await silhouette(dist, scored, tick), inertia: inertia(data, labels) });
+  }
+  return rows;
+}
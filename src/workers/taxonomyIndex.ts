@@ -0,0 +1,151 @@
+// Nearest-taxonomy lookup. A k-d tree answers RGB and ΔE76 queries; CIEDE2000 is not
+// a Euclidean metric, so it sweeps entries sorted by L* and stops once the lightness
+// difference alone rules out every remaining entry. Both return exactly what a linear
+// scan returns, including ties (the lowest index wins).
+
+import type { MatchSpace } from "../types";
+import { ciede2000, deltaE76Sq, rgbToLab, type Lab } from "./colorSpace";
+
+type Vec3 = readonly [number, number, number];
+
+export type IndexedColor = { rgb: Vec3; lab: Lab };
+
+export type TaxonomyIndex = {
+  nearest: (rgb: Vec3, space: MatchSpace) => number;
+};
+
+export type IndexBenchmark = {
+  space: MatchSpace;
+  queries: number;
+  bruteMs: number;
+  indexMs: number;
+  mismatches: number;
+};
+
+type KdNode = { index: number; axis: number; left: KdNode | null; right: KdNode | null };
+
+type Best = { index: number; d: number };
+
+// SL in CIEDE2000 peaks at L̄ = 0 or 100; with the rotation term bounded by |RT| < 2,
+// ΔE00 >= |ΔL| / SL_MAX for any pair
+const SL_MAX = 1 + (0.015 * 2500) / Math.sqrt(20 + 2500);
+// absorbs float rounding so the bound never prunes an entry that ties the best
+const BOUND_SLACK = 1e-9;
+
+function sqDistance(a: Vec3, b: Vec3) {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function matchDistance(space: MatchSpace, color: IndexedColor, rgb: Vec3, lab: Lab | null) {
+  if (space === "rgb") return sqDistance(rgb, color.rgb);
+  return space === "ciede2000" ? ciede2000(lab!, color.lab) : deltaE76Sq(lab!, color.lab);
+}
+
+function closer(best: Best, index: number, d: number) {
+  if (d < best.d || (d === best.d && index < best.index)) {
+    best.index = index;
+    best.d = d;
+  }
+}
+
+// linear scan; the reference the index is checked against
+export function nearestBrute(colors: readonly IndexedColor[], rgb: Vec3, space: MatchSpace) {
+  const lab = space === "rgb" ? null : rgbToLab(rgb);
+  const best: Best = { index: -1, d: Infinity };
+  colors.forEach((color, i) => closer(best, i, matchDistance(space, color, rgb, lab)));
+  return best.index;
+}
+
+function buildKd(points: readonly Vec3[], ids: number[], depth: number): KdNode | null {
+  if (!ids.length) return null;
+  const axis = depth % 3;
+  ids.sort((a, b) => points[a][axis] - points[b][axis] || a - b);
+  const mid = ids.length >> 1;
+  return {
+    index: ids[mid],
+    axis,
+    left: buildKd(points, ids.slice(0, mid), depth + 1),
+    right: buildKd(points, ids.slice(mid + 1), depth + 1),
+  };
+}
+
+function searchKd(node: KdNode | null, points: readonly Vec3[], q: Vec3, best: Best) {
+  if (!node) return;
+  const p = points[node.index];
+  closer(best, node.index, sqDistance(q, p));
+  const diff = q[node.axis] - p[node.axis];
+  searchKd(diff < 0 ? node.left : node.right, points, q, best);
+  // `<=` keeps visiting equally distant entries so ties resolve like the linear scan
+  if (diff * diff <= best.d) searchKd(diff < 0 ? node.right : node.left, points, q, best);
+}
+
+export function createTaxonomyIndex(colors: readonly IndexedColor[]): TaxonomyIndex {
+  const rgbPoints = colors.map((c) => c.rgb);
+  const labPoints = colors.map((c) => c.lab);
+  const ids = () => colors.map((_, i) => i);
+  const rgbTree = buildKd(rgbPoints, ids(), 0);
+  const labTree = buildKd(labPoints, ids(), 0);
+  const byL = ids().sort((a, b) => labPoints[a][0] - labPoints[b][0] || a - b);
+
+  const nearestDe2000 = (lab: Lab) => {
+    const best: Best = { index: -1, d: Infinity };
+    // first entry with L* >= the query's; sweep outwards from there
+    let lo = 0;
+    let hi = byL.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (labPoints[byL[mid]][0] < lab[0]) lo = mid + 1;
+      else hi = mid;
+    }
+    let down = lo - 1;
+    let up = lo;
+    const bound = (i: number) => Math.abs(labPoints[byL[i]][0] - lab[0]) / SL_MAX;
+    const reachable = (i: number) => bound(i) <= best.d * (1 + BOUND_SLACK) + BOUND_SLACK;
+    while (true) {
+      const canDown = down >= 0 && reachable(down);
+      const canUp = up < byL.length && reachable(up);
+      if (!canDown && !canUp) break;
+      const i = canDown && (!canUp || bound(down) <= bound(up)) ? down-- : up++;
+      closer(best, byL[i], ciede2000(lab, labPoints[byL[i]]));
+    }
+    return best.index;
+  };
+
+  const nearest = (rgb: Vec3, space: MatchSpace) => {
+    if (!colors.length) return -1;
+    if (space === "ciede2000") return nearestDe2000(rgbToLab(rgb));
+    const best: Best = { index: -1, d: Infinity };
+    if (space === "rgb") searchKd(rgbTree, rgbPoints, rgb, best);
+    else searchKd(labTree, labPoints, rgbToLab(rgb), best);
+    return best.index;
+  };
+
+  return { nearest };
+}
+
+// Times the index against the linear scan on pseudo-random colors (fixed seed, so runs
+// are comparable) and counts any disagreement.
+export function benchmarkTaxonomyIndex(
+  colors: readonly IndexedColor[],
+  index: TaxonomyIndex,
+  queries: number
+): IndexBenchmark[] {
+  let seed = 0x9e3779b9;
+  const rand = () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return seed >>> 24;
+  };
+  const samples: Vec3[] = Array.from({ length: queries }, () => [rand(), rand(), rand()]);
+  const spaces: MatchSpace[] = ["rgb", "lab", "ciede2000"];
+
+  return spaces.map((space) => {
+    let started = performance.now();
+    const expected = samples.map((rgb) => nearestBrute(colors, rgb, space));
+    const bruteMs = performance.now() - started;
+    started = performance.now();
+    const actual = samples.map((rgb) => index.nearest(rgb, space));
+    const indexMs = performance.now() - started;
+    const mismatches = actual.filter((v, i) => v !== expected[i]).length;
+    return { space, queries, bruteMs, indexMs, mismatches };
+  });
+}
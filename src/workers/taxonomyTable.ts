@@ -0,0 +1,131 @@
+// Parsing for taxonomy files (JSON array of objects, or CSV with a header row).
+// The UI reads the columns to offer a mapping; the worker builds the taxonomy from
+// the same table, so both sides agree on what a column holds.
+
+import type { TaxonomyFormat, TaxonomyMapping } from "../types";
+
+export type TaxonomyRow = Record<string, unknown>;
+
+export type TaxonomyTable = { columns: string[]; rows: TaxonomyRow[] };
+
+export function taxonomyFormatFor(name: string): TaxonomyFormat | null {
+  if (/\.json$/i.test(name)) return "json";
+  if (/\.(csv|txt)$/i.test(name)) return "csv";
+  return null;
+}
+
+// RFC 4180 style: quoted fields may hold commas, newlines and doubled quotes
+function parseCsvRecords(text: string) {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((r) => r.some((v) => v.trim() !== ""));
+}
+
+export function parseTaxonomyTable(text: string, format: TaxonomyFormat): TaxonomyTable {
+  if (format === "csv") {
+    const [header, ...body] = parseCsvRecords(text.replace(/^\uFEFF/, ""));
+    if (!header) throw new Error("The CSV file is empty");
+    const columns = header.map((c) => c.trim());
+    const rows = body.map((values) =>
+      Object.fromEntries(columns.map((col, i) => [col, values[i]?.trim() ?? ""]))
+    );
+    return { columns, rows };
+  }
+
+  const data: unknown = JSON.parse(text);
+  if (!Array.isArray(data) || !data.every((row) => row && typeof row === "object")) {
+    throw new Error("The JSON file must hold an array of objects");
+  }
+  const columns = [...new Set(data.flatMap((row) => Object.keys(row as TaxonomyRow)))];
+  return { columns, rows: data as TaxonomyRow[] };
+}
+
+const isNumeric = (value: unknown) => value != null && value !== "" && Number.isFinite(Number(value));
+
+const numericColumn = (table: TaxonomyTable, col: string) =>
+  table.rows.slice(0, 50).every((row) => isNumeric(row[col]));
+
+// Best guess at which columns hold the color and the names, for the mapping form to start from.
+export function guessTaxonomyMapping(table: TaxonomyTable): TaxonomyMapping {
+  const find = (pattern: RegExp) => table.columns.find((c) => pattern.test(c) && numericColumn(table, c));
+  const r = find(/(^|_)(r|red)$/i);
+  const g = find(/(^|_)(g|green)$/i);
+  const b = find(/(^|_)(b|blue)$/i);
+  const hex = table.columns.find((c) => /hex/i.test(c));
+  const color: TaxonomyMapping["color"] =
+    r && g && b ? { kind: "rgb", r, g, b } : { kind: "hex", column: hex ?? table.columns[0] ?? "" };
+  const used = new Set(color.kind === "rgb" ? [r, g, b] : [color.column]);
+  const layers = table.columns.filter((c) => !used.has(c) && !numericColumn(table, c));
+  // a column flagging entries as "neutral" (as colornamer's color_or_neutral does) enables neutral exclusion
+  const neutralLayer = layers.find((c) => table.rows.some((row) => String(row[c] ?? "").trim() === "neutral"));
+  return {
+    color,
+    layers,
+    summaryLayer: layers[layers.length - 1] ?? "",
+    ...(neutralLayer ? { neutral: { layer: neutralLayer, value: "neutral" } } : {}),
+  };
+}
+
+function parseHex(value: string): [number, number, number] | null {
+  let hex = value.trim().replace(/^#/, "");
+  if (/^[0-9a-f]{3}$/i.test(hex)) hex = [...hex].map((c) => c + c).join("");
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+// the row's color as 8-bit sRGB, or null when the mapped cells don't hold one
+export function rowColor(row: TaxonomyRow, mapping: TaxonomyMapping): [number, number, number] | null {
+  if (mapping.color.kind === "hex") return parseHex(String(row[mapping.color.column] ?? ""));
+  const { r, g, b } = mapping.color;
+  const rgb = [r, g, b].map((col) => (isNumeric(row[col]) ? Number(row[col]) : NaN));
+  if (rgb.some((v) => !Number.isFinite(v) || v < 0 || v > 255)) return null;
+  return rgb as [number, number, number];
+}
+
+export function mappingProblems(table: TaxonomyTable, mapping: TaxonomyMapping) {
+  const problems: string[] = [];
+  const colorColumns =
+    mapping.color.kind === "rgb" ? [mapping.color.r, mapping.color.g, mapping.color.b] : [mapping.color.column];
+  const missing = [...colorColumns, ...mapping.layers].filter((c) => !table.columns.includes(c));
+  if (missing.length) problems.push(`Unknown columns: ${missing.join(", ")}`);
+  if (!mapping.layers.length) problems.push("Pick at least one name column as a layer");
+  if (!mapping.layers.includes(mapping.summaryLayer)) problems.push("The summary layer must be one of the layers");
+  const strays = [...(mapping.chartLayers ?? []), ...(mapping.neutral ? [mapping.neutral.layer] : [])].filter(
+    (c) => !mapping.layers.includes(c)
+  );
+  if (strays.length) problems.push(`Chart and neutral columns must be layers: ${strays.join(", ")}`);
+  return problems;
+}